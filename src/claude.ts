@@ -1,17 +1,42 @@
 import fs from "node:fs";
 import path from "node:path";
-import type { ClaudeUsageData } from "./types.js";
+import type { AccountIdentity, ClaudeUsageBucket, ClaudeUsageData, QuotaWindow } from "./types.js";
 import { QuotaFetchError } from "./errors.js";
+import { withFileLock, writeFileAtomic } from "./file-store.js";
+import { toAccountIdentity } from "./identity.js";
+import { DAY_MS, HOUR_MS, clampPercent, parseResetAt } from "./windows.js";
 
 export type { ClaudeUsageData, ClaudeUsageBucket } from "./types.js";
 
-function getClaudeConfigDir(): string {
+/**
+ * Resolves the Claude config directory: an explicit override, then `CLAUDE_CONFIG_DIR`
+ * (as honored by Claude Code), then `~/.claude`.
+ */
+export function getClaudeConfigDir(configDir?: string): string {
+  if (configDir) return configDir;
+  const fromEnv = process.env.CLAUDE_CONFIG_DIR?.trim();
+  if (fromEnv) return fromEnv;
   const home = process.env.USERPROFILE ?? process.env.HOME ?? "";
   return path.join(home, ".claude");
 }
 
-function readClaudeCredentials(): { accessToken: string; expiresAt: number } | null {
-  const credsPath = path.join(getClaudeConfigDir(), ".credentials.json");
+const CLAUDE_OAUTH_TOKEN_URL = "https://console.anthropic.com/v1/oauth/token";
+const CLAUDE_OAUTH_CLIENT_ID = "9d1c250a-e61b-44d9-88ed-5944d1962f5e";
+/** Access tokens that expire within this time are refreshed before use */
+const CLAUDE_TOKEN_EXPIRY_BUFFER_MS = 5 * 60 * 1000;
+
+type ClaudeCredentials = {
+  accessToken: string;
+  refreshToken: string | null;
+  expiresAt: number;
+  subscriptionType: string | null;
+  rateLimitTier: string | null;
+  /** Path the credentials were read from */
+  path: string;
+};
+
+function readClaudeCredentials(configDir?: string): ClaudeCredentials | null {
+  const credsPath = path.join(getClaudeConfigDir(configDir), ".credentials.json");
   try {
     if (!fs.existsSync(credsPath)) {
       throw new QuotaFetchError("no_credentials", `Claude credentials not found at ${credsPath}`);
@@ -34,40 +59,254 @@ function readClaudeCredentials(): { accessToken: string; expiresAt: number } | n
       typeof oauthRecord.accessToken === "string" && oauthRecord.accessToken.length > 0
         ? oauthRecord.accessToken
         : null;
+    const refreshToken =
+      typeof oauthRecord.refreshToken === "string" && oauthRecord.refreshToken.length > 0
+        ? oauthRecord.refreshToken
+        : null;
     const expiresAt =
       typeof oauthRecord.expiresAt === "number" && Number.isFinite(oauthRecord.expiresAt)
         ? oauthRecord.expiresAt
         : null;
     if (!accessToken || expiresAt === null) return null;
-    return { accessToken, expiresAt };
+    const optionalString = (value: unknown): string | null =>
+      typeof value === "string" && value.length > 0 ? value : null;
+    return {
+      accessToken,
+      refreshToken,
+      expiresAt,
+      subscriptionType: optionalString(oauthRecord.subscriptionType),
+      rateLimitTier: optionalString(oauthRecord.rateLimitTier),
+      path: credsPath
+    };
   } catch (e) {
     if (e instanceof QuotaFetchError) throw e;
     throw new QuotaFetchError("api_error", "Failed to read Claude credentials.", { cause: e });
   }
 }
 
+/**
+ * Reads the signed-in account from the OAuth profile Claude Code keeps in its global config
+ * (`oauthAccount` in `.claude.json`: inside the config directory when one is set, otherwise
+ * in the home directory). Returns null when the file or profile is missing.
+ */
+function readClaudeAccount(configDir?: string): AccountIdentity | null {
+  const dir = configDir || process.env.CLAUDE_CONFIG_DIR?.trim();
+  const home = process.env.USERPROFILE ?? process.env.HOME ?? "";
+  const configPath = path.join(dir || home, ".claude.json");
+  try {
+    const parsed = JSON.parse(fs.readFileSync(configPath, "utf8")) as Record<string, unknown>;
+    const profile = parsed?.oauthAccount;
+    if (!profile || typeof profile !== "object") return null;
+    const record = profile as Record<string, unknown>;
+    return toAccountIdentity({
+      email: record.emailAddress,
+      organization: record.organizationName,
+      accountId: record.accountUuid
+    });
+  } catch {
+    // The profile is informational only; a missing or unreadable config is not an error
+    return null;
+  }
+}
+
+async function refreshClaudeAccessToken(
+  refreshToken: string,
+  timeoutMs: number
+): Promise<{ accessToken: string; refreshToken: string | null; expiresAt: number }> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+
+  let res: Response;
+  try {
+    res = await fetch(CLAUDE_OAUTH_TOKEN_URL, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        grant_type: "refresh_token",
+        refresh_token: refreshToken,
+        client_id: CLAUDE_OAUTH_CLIENT_ID
+      }),
+      signal: controller.signal
+    });
+  } catch (e) {
+    if (e instanceof Error && e.name === "AbortError") {
+      throw new QuotaFetchError("timeout", "Claude token refresh timed out.", { cause: e });
+    }
+    throw new QuotaFetchError("network_error", "Claude token refresh failed.", { cause: e });
+  } finally {
+    clearTimeout(timer);
+  }
+
+  if (!res.ok) {
+    const reason =
+      res.status === 400 || res.status === 401 || res.status === 403 ? "auth_failed" : "api_error";
+    throw new QuotaFetchError(reason, `Failed to refresh Claude access token (${res.status}).`, {
+      httpStatus: res.status
+    });
+  }
+
+  let data: Record<string, unknown>;
+  try {
+    data = (await res.json()) as Record<string, unknown>;
+  } catch (e) {
+    throw new QuotaFetchError("parse_error", "Claude token refresh response was not valid JSON.", {
+      cause: e
+    });
+  }
+
+  if (typeof data?.access_token !== "string" || data.access_token.length === 0) {
+    throw new QuotaFetchError("parse_error", "Claude token refresh response missing access_token.");
+  }
+
+  const expiresIn =
+    typeof data.expires_in === "number" && Number.isFinite(data.expires_in) ? data.expires_in : 3600;
+  return {
+    accessToken: data.access_token,
+    refreshToken:
+      typeof data.refresh_token === "string" && data.refresh_token.length > 0
+        ? data.refresh_token
+        : null,
+    expiresAt: Date.now() + Math.max(0, expiresIn) * 1000
+  };
+}
+
+/**
+ * Refreshes the access token in the credentials file and writes the result back, all under
+ * the file's lock. The file is re-read first: a token that another process (Claude Code or
+ * another ai-quota) refreshed in the meantime is used as-is, so that the rotating refresh
+ * token is never spent twice.
+ *
+ * @returns The access token to use
+ * @throws {QuotaFetchError} When the refresh fails or its result cannot be written back
+ */
+async function refreshClaudeCredentials(
+  credsPath: string,
+  configDir: string | undefined,
+  timeoutMs: number
+): Promise<string> {
+  return withFileLock(credsPath, async () => {
+    const current = readClaudeCredentials(configDir);
+    if (!current) {
+      throw new QuotaFetchError("no_credentials", "Claude credentials missing.");
+    }
+    if (Date.now() + CLAUDE_TOKEN_EXPIRY_BUFFER_MS < current.expiresAt) return current.accessToken;
+    if (!current.refreshToken) {
+      throw new QuotaFetchError("token_expired", "Claude access token is expired.");
+    }
+
+    const refreshed = await refreshClaudeAccessToken(current.refreshToken, timeoutMs);
+    try {
+      const file = JSON.parse(fs.readFileSync(credsPath, "utf8")) as Record<string, unknown>;
+      const oauth = {
+        ...(file.claudeAiOauth as Record<string, unknown>),
+        accessToken: refreshed.accessToken,
+        refreshToken: refreshed.refreshToken ?? current.refreshToken,
+        expiresAt: refreshed.expiresAt
+      };
+      writeFileAtomic(credsPath, JSON.stringify({ ...file, claudeAiOauth: oauth }, null, 2));
+    } catch (e) {
+      // The old refresh token is spent now; Claude Code has to sign in again
+      throw new QuotaFetchError(
+        "api_error",
+        `Failed to write the refreshed Claude token to ${credsPath}.`,
+        { cause: e }
+      );
+    }
+    return refreshed.accessToken;
+  });
+}
+
+/**
+ * Options for `fetchClaudeRateLimits`.
+ */
+export type FetchClaudeRateLimitsOptions = {
+  /** Claude config directory (default: `CLAUDE_CONFIG_DIR` or `~/.claude`) */
+  configDir?: string;
+  /**
+   * Whether a refreshed access token is written back to `.credentials.json` (default: true).
+   * The file is re-read, refreshed and updated atomically under an advisory lock. Refresh
+   * tokens rotate, so with false an expired token is reported as `token_expired` instead.
+   */
+  persistRefreshedCredentials?: boolean;
+};
+
+/**
+ * Returns the normalized Claude plan: the subscription type, with the usage multiplier of
+ * the rate limit tier when it has one (e.g. `max 20x`), or null when unknown.
+ */
+export function claudePlan(data: ClaudeUsageData): string | null {
+  const multiplier = data.rateLimitTier?.match(/_(\d+x)$/)?.[1];
+  const plan = data.subscriptionType ?? null;
+  if (!plan) return null;
+  return multiplier ? `${plan} ${multiplier}` : plan;
+}
+
+/**
+ * Returns how much of the monthly extra-usage limit has been spent (0-100), or null when
+ * extra usage is disabled or has no monthly limit. Like the other buckets, this is the
+ * reported `utilization`; the spend relative to the limit is only used when it is missing.
+ */
+export function claudeExtraUsagePercent(data: ClaudeUsageData): number | null {
+  const extra = data.extra_usage;
+  if (!extra?.is_enabled || !extra.monthly_limit || extra.monthly_limit <= 0) return null;
+  if (Number.isFinite(extra.utilization)) return clampPercent(extra.utilization);
+  return clampPercent((extra.used_credits / extra.monthly_limit) * 100);
+}
+
+/**
+ * Formats the extra-usage spend for display, e.g. `extra usage: $12.34 / $50.00 (25% used)`.
+ * `used_credits` and `monthly_limit` are reported in cents. Returns null when extra usage is
+ * disabled.
+ */
+export function formatClaudeExtraUsage(data: ClaudeUsageData): string | null {
+  const extra = data.extra_usage;
+  if (!extra?.is_enabled) return null;
+  const dollars = (cents: number) => `$${(cents / 100).toFixed(2)}`;
+  const percent = claudeExtraUsagePercent(data);
+  if (percent === null || extra.monthly_limit === null) {
+    return `extra usage: ${dollars(extra.used_credits)} (no monthly limit)`;
+  }
+  const spent = `${dollars(extra.used_credits)} / ${dollars(extra.monthly_limit)}`;
+  return `extra usage: ${spent} (${Math.round(percent)}% used)`;
+}
+
 /**
  * Fetches Claude usage data from the Anthropic OAuth usage API.
  * 
  * This function attempts to read credentials from the Claude desktop application's
- * local storage (`~/.claude/.credentials.json`) and calls the Anthropic usage API.
+ * local storage (`.credentials.json` in the Claude config directory, `~/.claude` by
+ * default) and calls the Anthropic usage API.
+ * An access token that is expired (or expires within five minutes) is refreshed with
+ * the stored refresh token and, unless disabled, persisted back to the credentials file.
  * 
  * @param timeoutMs - Request timeout in milliseconds (default: 5000ms)
+ * @param options - Config directory and refresh behavior options
  * @returns A promise resolving to ClaudeUsageData or null if credentials are 
  *          missing, expired, or the API request fails.
  */
 export async function fetchClaudeRateLimits(
-  timeoutMs: number = 5000
+  timeoutMs: number = 5000,
+  options?: FetchClaudeRateLimitsOptions
 ): Promise<ClaudeUsageData> {
   try {
-    const creds = readClaudeCredentials();
+    const creds = readClaudeCredentials(options?.configDir);
     if (!creds) {
       throw new QuotaFetchError("no_credentials", "Claude credentials missing.");
     }
 
-    // Check token expiry with 5-minute buffer
-    if (Date.now() + 300_000 >= creds.expiresAt) {
-      throw new QuotaFetchError("token_expired", "Claude access token is expired.");
+    if (Date.now() + CLAUDE_TOKEN_EXPIRY_BUFFER_MS >= creds.expiresAt) {
+      if (!creds.refreshToken) {
+        throw new QuotaFetchError("token_expired", "Claude access token is expired.");
+      }
+      // Claude rotates the refresh token, so a refresh that cannot be written back would
+      // sign Claude Code out
+      if (!(options?.persistRefreshedCredentials ?? true)) {
+        throw new QuotaFetchError(
+          "token_expired",
+          "Claude access token is expired, and refreshed credentials may not be written back."
+        );
+      }
+      creds.accessToken = await refreshClaudeCredentials(creds.path, options?.configDir, timeoutMs);
     }
 
     const controller = new AbortController();
@@ -129,16 +368,32 @@ export async function fetchClaudeRateLimits(
           : null;
       const used_credits =
         typeof e.used_credits === "number" && Number.isFinite(e.used_credits) ? e.used_credits : 0;
+      // Without a reported utilization, derive it from the spend against the limit
       const utilization =
-        typeof e.utilization === "number" && Number.isFinite(e.utilization) ? e.utilization : 0;
+        typeof e.utilization === "number" && Number.isFinite(e.utilization)
+          ? e.utilization
+          : monthly_limit
+            ? (used_credits / monthly_limit) * 100
+            : 0;
       return { is_enabled, monthly_limit, used_credits, utilization };
     };
 
+    // Keep every bucket, so limits Anthropic adds later (Opus-only, OAuth apps, ...) are not lost
+    const buckets: Record<string, ClaudeUsageBucket> = {};
+    for (const [key, value] of Object.entries(record)) {
+      const bucket = parseBucket(value);
+      if (bucket) buckets[key] = bucket;
+    }
+
     const out: ClaudeUsageData = {
-      five_hour: parseBucket(record.five_hour),
-      seven_day: parseBucket(record.seven_day),
-      seven_day_sonnet: parseBucket(record.seven_day_sonnet),
-      extra_usage: parseExtraUsage(record.extra_usage)
+      five_hour: buckets.five_hour ?? null,
+      seven_day: buckets.seven_day ?? null,
+      seven_day_sonnet: buckets.seven_day_sonnet ?? null,
+      buckets,
+      extra_usage: parseExtraUsage(record.extra_usage),
+      subscriptionType: creds.subscriptionType,
+      rateLimitTier: creds.rateLimitTier,
+      account: readClaudeAccount(options?.configDir)
     };
     return out;
   } catch (e) {
@@ -146,3 +401,67 @@ export async function fetchClaudeRateLimits(
     throw new QuotaFetchError("unknown", "Claude usage fetch failed.", { cause: e });
   }
 }
+
+const CLAUDE_COUNT_WORDS: Record<string, number> = {
+  one: 1,
+  two: 2,
+  three: 3,
+  four: 4,
+  five: 5,
+  six: 6,
+  seven: 7,
+  fourteen: 14,
+  thirty: 30
+};
+
+/**
+ * Derives the label, length and scope of a Claude usage bucket from its key. Keys start with
+ * the window length (`five_hour` -> 5h, `seven_day` -> 7d); any remainder names what the
+ * window is limited to (`seven_day_opus` -> "opus only", `seven_day_oauth_apps` ->
+ * "oauth apps only"). Unscoped day-long windows cover "all models". Keys that do not start
+ * with a window length are used as the label, with an unknown length.
+ */
+export function describeClaudeBucket(key: string): {
+  label: string;
+  windowDurationMs: number | null;
+  scope: string | null;
+} {
+  const match = /^([a-z]+|\d+)_(hour|day)s?(?:_(.+))?$/.exec(key);
+  const count = match ? (CLAUDE_COUNT_WORDS[match[1]!] ?? Number(match[1])) : NaN;
+  if (!match || !Number.isFinite(count)) {
+    return { label: key, windowDurationMs: null, scope: null };
+  }
+  const isDay = match[2] === "day";
+  const rest = match[3];
+  return {
+    label: `${count}${isDay ? "d" : "h"}`,
+    windowDurationMs: count * (isDay ? DAY_MS : HOUR_MS),
+    scope: rest ? `${rest.replace(/_/g, " ")} only` : isDay ? "all models" : null
+  };
+}
+
+/**
+ * Converts Claude usage buckets into normalized quota windows, one per bucket in `buckets`
+ * (or, for data without it, per named field), labeled by `describeClaudeBucket`.
+ *
+ * The all-models 7-day window is scoped "all models" and the Sonnet-only window
+ * "sonnet only"; the 5-hour window applies to the whole account.
+ */
+export function claudeUsageToWindows(data: ClaudeUsageData): QuotaWindow[] {
+  const buckets: Record<string, ClaudeUsageBucket | null> = data.buckets ?? {
+    five_hour: data.five_hour,
+    seven_day: data.seven_day,
+    seven_day_sonnet: data.seven_day_sonnet
+  };
+  const windows: QuotaWindow[] = [];
+  for (const [id, bucket] of Object.entries(buckets)) {
+    if (!bucket) continue;
+    windows.push({
+      id,
+      ...describeClaudeBucket(id),
+      usedPercent: clampPercent(bucket.utilization),
+      resetAt: parseResetAt(bucket.resets_at)
+    });
+  }
+  return windows;
+}
@@ -3,13 +3,21 @@
  * ai-quota CLI
  */
 
+import path from "node:path";
 import {
   fetchAllRateLimits,
   runMcpServer,
-  SUPPORTED_AGENTS,
-  SupportedAgent,
-  agentToSdkKey
+  listAgents,
+  agentToSdkKey,
+  loadProviderModules,
+  expandAgentKeys,
+  splitAgentKey,
+  readQuotaHistory,
+  parseHistorySince,
+  formatHistoryTable,
+  formatHistoryCsv
 } from "./index.js";
+import type { AgentId, QuotaAccount, QuotaCacheOptions } from "./index.js";
 import { getVersion } from "./utils.js";
 import { buildHumanRows, formatHumanTable } from "./human-output.js";
 
@@ -18,20 +26,222 @@ function showHelp(): void {
     `ai-quota v${getVersion()}\n\n` +
       "Usage:\n" +
       "  ai-quota [agent]           Show quota for all agents, or a specific agent\n" +
+      "  ai-quota history [agent] [--since <when>] [--format table|csv|json]\n" +
+      "                             Show recorded quota history (default: --since 7d)\n" +
       "  ai-quota --json            Output machine-readable JSON\n" +
       "  ai-quota --mcp             Start as an MCP server\n" +
       "  ai-quota --quiet           Suppress non-error output\n" +
       "  ai-quota --verbose         Show extra debug info on stderr\n" +
+      "  ai-quota --gemini-buckets  Show one Gemini row per quota bucket instead of per family\n" +
+      "  ai-quota --show-account    Show the signed-in account of each agent (unredacted)\n" +
+      "  ai-quota --show-remaining  Show the absolute amount left (e.g. 84/300 requests)\n" +
+      "  ai-quota --provider <mod>  Load a custom quota provider module (repeatable)\n" +
+      "  ai-quota --config-dir <agent>=<dir>\n" +
+      "                             Use a specific config dir for an agent (repeatable)\n" +
+      "  ai-quota --host <agent>=<host>\n" +
+      "                             Use a specific service host for an agent, e.g.\n" +
+      "                             copilot=octo.ghe.com for GitHub Enterprise (repeatable)\n" +
+      "  ai-quota --no-write-credentials\n" +
+      "                             Never modify agents' credential files (refresh Gemini\n" +
+      "                             tokens in memory only; report expired Claude and Codex\n" +
+      "                             tokens as token_expired)\n" +
+      "  ai-quota --account <agent>:<name>[=<dir>]\n" +
+      "                             Fetch a named account from its own config dir (repeatable)\n" +
+      "  ai-quota --max-age [<agent>=]<seconds>\n" +
+      "                             Reuse cached results up to this age, for all agents or one\n" +
+      "                             agent (repeatable; default: 60s, 120s for gemini, 300s for\n" +
+      "                             copilot)\n" +
+      "  ai-quota --refresh         Ignore cached results (fresh ones are still cached)\n" +
+      "  ai-quota --max-stale <seconds>\n" +
+      "                             Show the last successful result, marked STALE, up to this\n" +
+      "                             age when a fetch fails transiently (default: 3600; 0: never)\n" +
+      "  ai-quota --no-cache        Neither read nor write the result cache\n" +
+      "  ai-quota --record-history  Append the fetched quotas to the local history (also\n" +
+      "                             enabled by AI_QUOTA_HISTORY=1)\n" +
+      "  ai-quota --forecast        Show when each agent runs out at the current pace (records\n" +
+      "                             readings in the local history)\n" +
+      "  ai-quota --pace            Also report LOW_QUOTA when usage runs well ahead of the\n" +
+      "                             elapsed share of its window\n" +
       "  ai-quota --help            Show this help message\n" +
       "  ai-quota --version         Show version\n\n" +
-      "Agents: " + SUPPORTED_AGENTS.join(", ") + "\n" +
-      "Output: table with AGENT, STATUS, LIMIT, DETAILS\n" +
+      "Agents: " + listAgents().join(", ") + "\n" +
+      "Output: table with AGENT, STATUS, PLAN, LIMIT, DETAILS (plus ACCOUNT with --show-account,\n" +
+      "        REMAINING with --show-remaining and FORECAST with --forecast)\n" +
       "Note: Use --json for scripts.\n"
   );
 }
 
+/** Flags that take a value, either as `--flag value` or `--flag=value`. */
+const VALUE_FLAGS = new Set([
+  "--provider",
+  "--config-dir",
+  "--host",
+  "--account",
+  "--max-age",
+  "--max-stale",
+  "--since",
+  "--format"
+]);
+
+type ParsedArgs = {
+  flags: Set<string>;
+  values: Map<string, string[]>;
+  positional: string[];
+};
+
+function parseArgs(argv: string[]): ParsedArgs {
+  const parsed: ParsedArgs = { flags: new Set(), values: new Map(), positional: [] };
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i]!;
+    if (!arg.startsWith("-")) {
+      parsed.positional.push(arg);
+      continue;
+    }
+    const eq = arg.indexOf("=");
+    const name = eq >= 0 ? arg.slice(0, eq) : arg;
+    if (!VALUE_FLAGS.has(name)) {
+      parsed.flags.add(arg);
+      continue;
+    }
+    const value = eq >= 0 ? arg.slice(eq + 1) : argv[++i];
+    if (value === undefined) {
+      throw new Error(`${name} requires a value`);
+    }
+    parsed.values.set(name, [...(parsed.values.get(name) ?? []), value]);
+  }
+  return parsed;
+}
+
+/**
+ * Provider modules named by `--provider` and the `AI_QUOTA_PROVIDERS` env var
+ * (separated by the platform path delimiter).
+ */
+function providerModules(parsed: ParsedArgs): string[] {
+  const fromEnv = (process.env.AI_QUOTA_PROVIDERS ?? "")
+    .split(path.delimiter)
+    .map((s) => s.trim())
+    .filter(Boolean);
+  return [...fromEnv, ...(parsed.values.get("--provider") ?? [])];
+}
+
+/**
+ * Parses repeated `<flag> <agent>=<value>` options (`--config-dir`, `--host`) into a
+ * per-agent map.
+ */
+function agentValueOverrides(
+  parsed: ParsedArgs,
+  flag: string,
+  valueName: string
+): Record<string, string> {
+  const overrides: Record<string, string> = {};
+  for (const value of parsed.values.get(flag) ?? []) {
+    const eq = value.indexOf("=");
+    if (eq <= 0 || eq === value.length - 1) {
+      throw new Error(`${flag} expects <agent>=<${valueName}>, got "${value}"`);
+    }
+    overrides[value.slice(0, eq)] = value.slice(eq + 1);
+  }
+  return overrides;
+}
+
+/**
+ * Parses `--account <agent>:<name>[=<dir>]` values into account declarations.
+ */
+function accountDeclarations(parsed: ParsedArgs): QuotaAccount[] {
+  return (parsed.values.get("--account") ?? []).map((value) => {
+    const eq = value.indexOf("=");
+    const key = eq >= 0 ? value.slice(0, eq) : value;
+    const { agent, account } = splitAgentKey(key);
+    if (!agent || !account) {
+      throw new Error(`--account expects <agent>:<name>[=<dir>], got "${value}"`);
+    }
+    const configDir = eq >= 0 ? value.slice(eq + 1) : "";
+    return configDir ? { agent, name: account, configDir } : { agent, name: account };
+  });
+}
+
+function parseSeconds(flag: string, value: string, expected: string): number {
+  const seconds = Number(value);
+  if (value.trim() === "" || !Number.isFinite(seconds) || seconds < 0) {
+    throw new Error(`${flag} expects ${expected}, got "${value}"`);
+  }
+  return seconds;
+}
+
+/**
+ * Builds the result cache options from `--no-cache`, `--refresh`, `--max-stale <seconds>`
+ * and `--max-age [<agent>=]<seconds>`, or returns false when caching is disabled.
+ */
+function cacheOptions(parsed: ParsedArgs): QuotaCacheOptions | false {
+  if (parsed.flags.has("--no-cache")) return false;
+  let maxAgeSeconds: QuotaCacheOptions["maxAgeSeconds"];
+  const perAgent: Record<string, number> = {};
+  for (const value of parsed.values.get("--max-age") ?? []) {
+    const eq = value.indexOf("=");
+    const seconds = parseSeconds("--max-age", value.slice(eq + 1), "[<agent>=]<seconds>");
+    if (eq < 0) maxAgeSeconds = seconds;
+    else perAgent[value.slice(0, eq)] = seconds;
+  }
+  if (Object.keys(perAgent).length > 0) {
+    // Agents without their own value fall back to the global one, if given
+    maxAgeSeconds =
+      typeof maxAgeSeconds === "number"
+        ? Object.fromEntries(listAgents().map((a) => [a, perAgent[a] ?? maxAgeSeconds]))
+        : perAgent;
+  }
+  const maxStale = parsed.values.get("--max-stale")?.at(-1);
+  return {
+    maxAgeSeconds,
+    refresh: parsed.flags.has("--refresh"),
+    maxStaleSeconds:
+      maxStale === undefined ? undefined : parseSeconds("--max-stale", maxStale, "<seconds>")
+  };
+}
+
+/**
+ * `ai-quota history [agent] [--since <when>] [--format table|csv|json]`
+ */
+function runHistoryCommand(parsed: ParsedArgs): void {
+  const agent = parsed.positional[1];
+  if (agent !== undefined && !listAgents().includes(splitAgentKey(agent).agent)) {
+    process.stderr.write(
+      `ai-quota: unknown agent: ${agent} (expected one of: ${listAgents().join(", ")})\n`
+    );
+    process.exitCode = 1;
+    return;
+  }
+  const sinceValue = parsed.values.get("--since")?.at(-1) ?? "7d";
+  const since = parseHistorySince(sinceValue);
+  if (!since) {
+    throw new Error(`--since expects a duration (e.g. 7d, 12h) or a date, got "${sinceValue}"`);
+  }
+  const format = parsed.flags.has("--json")
+    ? "json"
+    : (parsed.values.get("--format")?.at(-1) ?? "table");
+  if (format !== "table" && format !== "csv" && format !== "json") {
+    throw new Error(`--format expects table, csv or json, got "${format}"`);
+  }
+
+  const records = readQuotaHistory({ agent, since });
+  if (format === "json") {
+    process.stdout.write(JSON.stringify(records, null, 2) + "\n");
+  } else if (format === "csv") {
+    process.stdout.write(formatHistoryCsv(records) + "\n");
+  } else if (records.length === 0) {
+    process.stdout.write(
+      `No quota history since ${since.toISOString()}. ` +
+        "Record it with --record-history or AI_QUOTA_HISTORY=1.\n"
+    );
+  } else {
+    process.stdout.write(formatHistoryTable(records) + "\n");
+  }
+}
+
 async function main(): Promise<void> {
-  const args = process.argv.slice(2);
+  const parsed = parseArgs(process.argv.slice(2));
+  const args = [...parsed.flags];
+
+  await loadProviderModules(providerModules(parsed));
 
   if (args.includes("--help") || args.includes("-h")) {
     showHelp();
@@ -43,26 +253,82 @@ async function main(): Promise<void> {
     return;
   }
 
+  if (parsed.positional[0] === "history") {
+    runHistoryCommand(parsed);
+    return;
+  }
+
+  const accounts = accountDeclarations(parsed);
+  const readOnlyCredentials = args.includes("--no-write-credentials");
+  const cache = cacheOptions(parsed);
+  const history =
+    args.includes("--record-history") ||
+    /^(1|true|yes)$/i.test(process.env.AI_QUOTA_HISTORY?.trim() ?? "");
+  const forecast = args.includes("--forecast");
+
   if (args.includes("--mcp")) {
-    await runMcpServer();
+    // The server outlives each call, so expired results can be refreshed in the background
+    await runMcpServer({
+      accounts,
+      readOnlyCredentials,
+      cache: cache && { ...cache, staleWhileRevalidateSeconds: 300 },
+      history,
+      forecast
+    });
     return;
   }
 
   const jsonMode = args.includes("--json");
   const quiet = args.includes("--quiet");
   const verbose = args.includes("--verbose");
+  const showAccount = args.includes("--show-account");
 
-  const requestedAgents = args.filter((a) => !a.startsWith("-")) as SupportedAgent[];
+  const requestedAgents: AgentId[] = parsed.positional;
+  const configDirs = agentValueOverrides(parsed, "--config-dir", "dir");
+  const hosts = agentValueOverrides(parsed, "--host", "host");
+  const unknownAgents = [
+    ...requestedAgents.map((a) => splitAgentKey(a).agent),
+    ...Object.keys(configDirs),
+    ...Object.keys(hosts),
+    ...(cache && typeof cache.maxAgeSeconds === "object" ? Object.keys(cache.maxAgeSeconds) : []),
+    ...accounts.map((a) => a.agent)
+  ].filter((a) => !listAgents().includes(a));
+  if (unknownAgents.length > 0) {
+    process.stderr.write(
+      `ai-quota: unknown agent: ${unknownAgents.join(", ")} (expected one of: ${listAgents().join(", ")})\n`
+    );
+    process.exitCode = 1;
+    return;
+  }
+  const unknownAccounts = requestedAgents.filter(
+    (key) => key.includes(":") && !accounts.some((a) => `${a.agent}:${a.name}` === key)
+  );
+  if (unknownAccounts.length > 0) {
+    process.stderr.write(
+      `ai-quota: unknown account: ${unknownAccounts.join(", ")} (declare it with --account)\n`
+    );
+    process.exitCode = 1;
+    return;
+  }
 
   const allResults = await fetchAllRateLimits({
     agents: requestedAgents.length > 0 ? requestedAgents : undefined,
     verbose,
-    timeoutSeconds: 10
+    timeoutSeconds: 10,
+    configDirs,
+    hosts,
+    readOnlyCredentials,
+    accounts,
+    showAccount,
+    cache,
+    history,
+    forecast
   });
 
-  const agentsToDisplay = (
-    requestedAgents.length > 0 ? requestedAgents : [...SUPPORTED_AGENTS]
-  ) as SupportedAgent[];
+  const agentsToDisplay = expandAgentKeys(
+    requestedAgents.length > 0 ? requestedAgents : listAgents(),
+    accounts
+  );
 
   let anyError = false;
   const outputJson: Record<string, unknown> = {};
@@ -80,13 +346,29 @@ async function main(): Promise<void> {
         reason: res.reason,
         error: res.error,
         data: res.data,
-        display: res.display
+        display: res.display,
+        windows: res.windows,
+        plan: res.plan ?? null,
+        account: res.account ?? null,
+        fetchedAt: res.fetchedAt ?? null,
+        fromCache: res.fromCache ?? false,
+        stale: res.stale ?? false,
+        staleAgeSeconds: res.staleAgeSeconds ?? null,
+        staleError: res.staleError ?? null
       };
     }
   }
 
   if (!jsonMode && !quiet) {
-    const rows = buildHumanRows(allResults, { agents: agentsToDisplay, now: new Date() });
+    const rows = buildHumanRows(allResults, {
+      agents: agentsToDisplay,
+      now: new Date(),
+      geminiBuckets: args.includes("--gemini-buckets"),
+      showAccount,
+      showRemaining: args.includes("--show-remaining"),
+      showForecast: forecast,
+      pace: args.includes("--pace")
+    });
     process.stdout.write(formatHumanTable(rows) + "\n");
   }
 
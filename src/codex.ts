@@ -1,10 +1,22 @@
-import { readFile } from "node:fs/promises";
+import { execFile } from "node:child_process";
+import { createHash } from "node:crypto";
+import { readFile, realpath } from "node:fs/promises";
 import { join } from "node:path";
 import { homedir } from "node:os";
-import type { RateLimitSnapshot, RateLimitWindow } from "./types.js";
+import { promisify } from "node:util";
+import type {
+  AccountIdentity,
+  CodexCredits,
+  QuotaWindow,
+  RateLimitGroup,
+  RateLimitSnapshot,
+  RateLimitWindow
+} from "./types.js";
 import { QuotaFetchError } from "./errors.js";
+import { withFileLock, writeFileAtomic } from "./file-store.js";
+import { decodeJwtClaims, toAccountIdentity } from "./identity.js";
 
-export type { RateLimitSnapshot, RateLimitWindow } from "./types.js";
+export type { CodexCredits, RateLimitGroup, RateLimitSnapshot, RateLimitWindow } from "./types.js";
 
 export type UsageWindowKey = "fiveHour" | "weekly";
 
@@ -14,11 +26,17 @@ export type UsageWindow = {
   percentLeft: number;
   resetAt: Date;
   resetText: string;
+  /** Length of the window in minutes, when the API reported it */
+  windowMinutes: number | null;
 };
 
 export type CodexStatus = {
   windows: UsageWindow[];
+  /** Windows of the additional named limits (e.g., `code_review`) */
+  additionalLimits: Record<string, UsageWindow[]>;
+  /** Credit balance (kept for compatibility; see `creditDetails`) */
   credits: number | null;
+  creditDetails: CodexCredits | null;
   raw: string;
 };
 
@@ -26,10 +44,45 @@ export type FetchCodexRateLimitsOptions = {
   codexHome?: string;
   timeoutSeconds?: number;
   timingSink?: (phase: string, durationMs: number) => void;
+  /**
+   * Whether a refreshed access token is written back to `auth.json` (default: true).
+   * The file is re-read, refreshed and updated atomically under an advisory lock. Refresh
+   * tokens rotate, so with false a stale token is reported as `token_expired` instead.
+   */
+  persistRefreshedCredentials?: boolean;
+  /**
+   * Reads the `auth.json` contents that Codex keeps in the OS keyring when
+   * `cli_auth_credentials_store` is `keyring` (or `auto` without an `auth.json`).
+   * Default: `secret-tool` on Linux; no lookup on other platforms.
+   */
+  secretLookup?: CodexSecretLookup;
 };
 
-function resolveCodexHome(codexHome?: string): string {
-  return codexHome ?? join(homedir(), ".codex");
+/**
+ * Looks up a secret in the OS keyring by service and account, resolving to null when it
+ * does not exist.
+ */
+export type CodexSecretLookup = (service: string, account: string) => Promise<string | null>;
+
+/** Keyring service under which the Codex CLI stores its credentials */
+export const CODEX_KEYRING_SERVICE = "Codex Auth";
+
+const CODEX_OAUTH_TOKEN_URL = "https://auth.openai.com/oauth/token";
+const CODEX_OAUTH_CLIENT_ID = "app_EMoamEEZ73f0CkXaXp7hrann";
+/** The Codex CLI refreshes its tokens once they are older than this */
+const CODEX_TOKEN_REFRESH_INTERVAL_MS = 8 * 24 * 60 * 60 * 1000;
+/** Refresh an access token this long before its `exp` claim */
+const CODEX_TOKEN_EXPIRY_BUFFER_MS = 5 * 60 * 1000;
+
+/**
+ * Resolves the Codex home directory: an explicit override, then `CODEX_HOME`
+ * (as honored by the Codex CLI), then `~/.codex`.
+ */
+export function resolveCodexHome(codexHome?: string): string {
+  if (codexHome) return codexHome;
+  const fromEnv = process.env.CODEX_HOME?.trim();
+  if (fromEnv) return fromEnv;
+  return join(homedir(), ".codex");
 }
 
 function resolveWindowMinutes(window: RateLimitWindow): number | null {
@@ -135,7 +188,8 @@ export function rateLimitSnapshotToStatus(
       label: "5h",
       percentLeft: clampPercent(100 - fiveHourCandidate.data.usedPercent),
       resetAt: fiveHourCandidate.data.resetAt,
-      resetText: fiveHourCandidate.data.resetAt.toISOString()
+      resetText: fiveHourCandidate.data.resetAt.toISOString(),
+      windowMinutes: fiveHourCandidate.data.windowMinutes
     });
   }
 
@@ -145,21 +199,392 @@ export function rateLimitSnapshotToStatus(
       label: "7d",
       percentLeft: clampPercent(100 - weeklyCandidate.data.usedPercent),
       resetAt: weeklyCandidate.data.resetAt,
-      resetText: weeklyCandidate.data.resetAt.toISOString()
+      resetText: weeklyCandidate.data.resetAt.toISOString(),
+      windowMinutes: weeklyCandidate.data.windowMinutes
     });
   }
 
-  return { windows, credits: typeof snapshot.credits === "number" ? snapshot.credits : null, raw: "" };
+  const additionalLimits: Record<string, UsageWindow[]> = {};
+  for (const [name, group] of Object.entries(snapshot.additionalLimits ?? {})) {
+    const groupWindows = rateLimitSnapshotToStatus(
+      { primary: group.primary, secondary: group.secondary },
+      now
+    )?.windows;
+    if (groupWindows && groupWindows.length > 0) additionalLimits[name] = groupWindows;
+  }
+
+  const creditDetails = parseCodexCredits(snapshot.credits);
+  return {
+    windows,
+    additionalLimits,
+    credits: creditDetails?.balance ?? null,
+    creditDetails,
+    raw: ""
+  };
+}
+
+function parseBalance(value: unknown): number | null {
+  if (typeof value === "number") return Number.isFinite(value) ? value : null;
+  if (typeof value === "string" && value.trim()) {
+    const parsed = Number(value);
+    return Number.isFinite(parsed) ? parsed : null;
+  }
+  return null;
+}
+
+/**
+ * Parses the `credits` value of the ChatGPT usage API: an object with `has_credits`,
+ * `unlimited` and `balance` (a number or numeric string), or a bare balance number.
+ */
+export function parseCodexCredits(value: unknown): CodexCredits | null {
+  const balance = parseBalance(value);
+  if (balance !== null) return { hasCredits: balance > 0, unlimited: false, balance };
+  if (!value || typeof value !== "object") return null;
+
+  const record = value as Record<string, unknown>;
+  const flag = (snake: string, camel: string): boolean | null => {
+    const v = record[snake] ?? record[camel];
+    return typeof v === "boolean" ? v : null;
+  };
+  const parsedBalance = parseBalance(record["balance"]);
+  const unlimited = flag("unlimited", "unlimited") ?? false;
+  return {
+    hasCredits: flag("has_credits", "hasCredits") ?? (unlimited || (parsedBalance ?? 0) > 0),
+    unlimited,
+    balance: parsedBalance
+  };
+}
+
+/**
+ * Formats credits as `credits: unlimited` or `credits: <balance>`, or null when the account
+ * has no credits.
+ */
+export function formatCodexCredits(credits: CodexCredits | null): string | null {
+  if (!credits) return null;
+  if (credits.unlimited) return "credits: unlimited";
+  if (!credits.hasCredits) return null;
+  return credits.balance !== null ? `credits: ${credits.balance}` : "credits: available";
+}
+
+/**
+ * Human-readable name of an additional limit (`code_review` -> `code review`).
+ */
+export function codexLimitLabel(name: string): string {
+  return name.replace(/_rate_limit$/, "").replace(/[_-]+/g, " ");
+}
+
+/**
+ * Converts a raw `RateLimitSnapshot` into normalized quota windows.
+ *
+ * The main limit's windows have a null scope; windows of additional limits follow with the
+ * id `<limit>.<window>` (e.g., `code_review.weekly`) and the limit's name as scope.
+ */
+export function rateLimitSnapshotToWindows(
+  snapshot: RateLimitSnapshot,
+  now: Date = new Date()
+): QuotaWindow[] {
+  const status = rateLimitSnapshotToStatus(snapshot, now);
+  const toQuotaWindow = (w: UsageWindow, name: string | null): QuotaWindow => ({
+    id: name ? `${name}.${w.key}` : w.key,
+    label: w.label,
+    usedPercent: clampPercent(100 - w.percentLeft),
+    resetAt: w.resetAt,
+    windowDurationMs: w.windowMinutes !== null ? w.windowMinutes * 60000 : null,
+    scope: name ? codexLimitLabel(name) : null
+  });
+  return [
+    ...(status?.windows ?? []).map((w) => toQuotaWindow(w, null)),
+    ...Object.entries(status?.additionalLimits ?? {}).flatMap(([name, windows]) =>
+      windows.map((w) => toQuotaWindow(w, name))
+    )
+  ];
 }
 
 type AuthJson = {
+  auth_mode?: string;
+  OPENAI_API_KEY?: string | null;
   tokens?: {
+    id_token?: string;
     access_token?: string;
+    refresh_token?: string;
     account_id?: string;
   };
   account_id?: string;
+  last_refresh?: string;
+};
+
+/**
+ * Reads the `exp` claim (in milliseconds) of a JWT access token, or null when the token
+ * is not a decodable JWT.
+ */
+function jwtExpiresAt(token: string): number | null {
+  const exp = decodeJwtClaims(token)?.["exp"];
+  return typeof exp === "number" && Number.isFinite(exp) ? exp * 1000 : null;
+}
+
+/**
+ * Reads the signed-in account from the claims of the Codex `id_token`: the email, the
+ * ChatGPT account id and the default organization's title.
+ */
+function codexAccountFromIdToken(
+  idToken: string | undefined,
+  fallbackAccountId: string | undefined
+): AccountIdentity | null {
+  const claims = decodeJwtClaims(idToken) ?? {};
+  const openaiAuth = claims["https://api.openai.com/auth"];
+  const authClaims =
+    openaiAuth && typeof openaiAuth === "object" ? (openaiAuth as Record<string, unknown>) : {};
+  const organizations = Array.isArray(authClaims["organizations"])
+    ? (authClaims["organizations"] as unknown[]).filter(
+        (o): o is Record<string, unknown> => !!o && typeof o === "object"
+      )
+    : [];
+  const organization = organizations.find((o) => o["is_default"] === true) ?? organizations[0];
+  return toAccountIdentity({
+    email: claims["email"],
+    organization: organization?.["title"],
+    accountId: authClaims["chatgpt_account_id"] ?? fallbackAccountId
+  });
+}
+
+/**
+ * Whether the stored access token should be refreshed before use: it expires within five
+ * minutes, or (when its expiry cannot be read) `last_refresh` is older than the Codex CLI's
+ * own eight-day refresh interval.
+ */
+function isCodexTokenStale(auth: AuthJson, accessToken: string, now: number): boolean {
+  const expiresAt = jwtExpiresAt(accessToken);
+  if (expiresAt !== null) return now + CODEX_TOKEN_EXPIRY_BUFFER_MS >= expiresAt;
+  const lastRefresh = auth.last_refresh ? Date.parse(auth.last_refresh) : Number.NaN;
+  return Number.isFinite(lastRefresh) && now - lastRefresh >= CODEX_TOKEN_REFRESH_INTERVAL_MS;
+}
+
+type RefreshedCodexTokens = {
+  accessToken: string;
+  refreshToken: string | null;
+  idToken: string | null;
 };
 
+async function refreshCodexAccessToken(
+  refreshToken: string,
+  timeoutMs: number
+): Promise<RefreshedCodexTokens> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+
+  let res: Response;
+  let bodyText = "";
+  try {
+    res = await fetch(CODEX_OAUTH_TOKEN_URL, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        client_id: CODEX_OAUTH_CLIENT_ID,
+        grant_type: "refresh_token",
+        refresh_token: refreshToken,
+        scope: "openid profile email"
+      }),
+      signal: controller.signal
+    });
+    bodyText = await res.text();
+  } catch (e) {
+    if (e instanceof Error && e.name === "AbortError") {
+      throw new QuotaFetchError("timeout", "Codex token refresh timed out.", { cause: e });
+    }
+    throw new QuotaFetchError("network_error", "Codex token refresh failed.", { cause: e });
+  } finally {
+    clearTimeout(timer);
+  }
+
+  if (!res.ok) {
+    // 400/401 mean the refresh token was revoked, reused or has expired: the user has to
+    // sign in to Codex again.
+    if (res.status === 400 || res.status === 401) {
+      throw new QuotaFetchError(
+        "token_expired",
+        `Codex refresh token was rejected (${res.status}); run \`codex login\` again.`,
+        { httpStatus: res.status }
+      );
+    }
+    throw new QuotaFetchError(
+      res.status === 403 ? "auth_failed" : "api_error",
+      `Failed to refresh Codex access token (${res.status}).`,
+      { httpStatus: res.status }
+    );
+  }
+
+  let data: Record<string, unknown>;
+  try {
+    data = JSON.parse(bodyText) as Record<string, unknown>;
+  } catch (e) {
+    throw new QuotaFetchError("parse_error", "Codex token refresh response was not valid JSON.", {
+      cause: e
+    });
+  }
+
+  if (typeof data?.access_token !== "string" || data.access_token.length === 0) {
+    throw new QuotaFetchError("parse_error", "Codex token refresh response missing access_token.");
+  }
+
+  const nonEmpty = (value: unknown): string | null =>
+    typeof value === "string" && value.length > 0 ? value : null;
+  return {
+    accessToken: data.access_token,
+    refreshToken: nonEmpty(data.refresh_token),
+    idToken: nonEmpty(data.id_token)
+  };
+}
+
+/**
+ * Refreshes the Codex access token and writes the result back to `auth.json`, all under the
+ * file's advisory lock. The file is re-read first: when another process already replaced
+ * `rejectedToken` with a fresh one, that token is used instead of spending the refresh token
+ * again. Refresh tokens rotate, so a refreshed token that cannot be written back is an error.
+ */
+async function refreshCodexCredentials(
+  authPath: string,
+  rejectedToken: string,
+  timeoutMs: number
+): Promise<{ accessToken: string; idToken: string | null }> {
+  return withFileLock(authPath, async () => {
+    const current = await readAuthJson(authPath);
+    const currentToken = current.tokens?.access_token;
+    if (
+      currentToken &&
+      currentToken !== rejectedToken &&
+      !isCodexTokenStale(current, currentToken, Date.now())
+    ) {
+      return { accessToken: currentToken, idToken: current.tokens?.id_token ?? null };
+    }
+    const refreshToken = current.tokens?.refresh_token;
+    if (!refreshToken) {
+      throw new QuotaFetchError("token_expired", "Codex access token is expired.");
+    }
+
+    const refreshed = await refreshCodexAccessToken(refreshToken, timeoutMs);
+    try {
+      const tokens = { ...current.tokens, access_token: refreshed.accessToken };
+      if (refreshed.refreshToken) tokens.refresh_token = refreshed.refreshToken;
+      if (refreshed.idToken) tokens.id_token = refreshed.idToken;
+      const updated = { ...current, tokens, last_refresh: new Date().toISOString() };
+      writeFileAtomic(authPath, JSON.stringify(updated, null, 2));
+    } catch (e) {
+      // The old refresh token is spent now; Codex has to sign in again
+      throw new QuotaFetchError(
+        "api_error",
+        `Failed to write the refreshed Codex tokens to ${authPath}.`,
+        { cause: e }
+      );
+    }
+    return {
+      accessToken: refreshed.accessToken,
+      idToken: refreshed.idToken ?? current.tokens?.id_token ?? null
+    };
+  });
+}
+
+/**
+ * Keyring account under which the Codex CLI stores the credentials of a Codex home:
+ * `cli|` followed by the first 16 hex digits of the SHA-256 of the canonical home path.
+ */
+export async function codexKeyringAccount(codexHome: string): Promise<string> {
+  let canonical = codexHome;
+  try {
+    canonical = await realpath(codexHome);
+  } catch {
+    // Not created yet; hash the path as given
+  }
+  const digest = createHash("sha256").update(canonical).digest("hex");
+  return `cli|${digest.slice(0, 16)}`;
+}
+
+const defaultSecretLookup: CodexSecretLookup = async (service, account) => {
+  if (process.platform !== "linux") return null;
+  try {
+    const { stdout } = await promisify(execFile)(
+      "secret-tool",
+      ["lookup", "service", service, "account", account],
+      { timeout: 5000 }
+    );
+    return stdout.trim() || null;
+  } catch {
+    // secret-tool is missing, the keyring is locked, or there is no such secret
+    return null;
+  }
+};
+
+/**
+ * Reads `cli_auth_credentials_store` (`file`, `keyring` or `auto`) from the Codex
+ * `config.toml`, defaulting to `file`.
+ */
+async function readCodexCredentialsStore(codexHome: string): Promise<string> {
+  let raw: string;
+  try {
+    raw = await readFile(join(codexHome, "config.toml"), "utf8");
+  } catch {
+    return "file";
+  }
+  for (const line of raw.split(/\r?\n/)) {
+    // Only top-level keys count; stop at the first table header
+    if (/^\s*\[/.test(line)) break;
+    const match = line.match(/^\s*cli_auth_credentials_store\s*=\s*["']([^"']+)["']/);
+    if (match) return match[1]!;
+  }
+  return "file";
+}
+
+type CodexAuth = {
+  auth: AuthJson;
+  /** `auth.json` path, or null when the credentials came from the keyring */
+  authPath: string | null;
+  /** Where the credentials were read from, for error messages */
+  location: string;
+};
+
+/**
+ * Loads the Codex credentials from `auth.json` or, depending on `cli_auth_credentials_store`,
+ * from the OS keyring.
+ */
+async function loadCodexAuth(
+  codexHome: string,
+  secretLookup: CodexSecretLookup
+): Promise<CodexAuth> {
+  const authPath = join(codexHome, "auth.json");
+  const store = await readCodexCredentialsStore(codexHome);
+
+  if (store !== "keyring") {
+    try {
+      return { auth: await readAuthJson(authPath), authPath, location: authPath };
+    } catch (e) {
+      if (store !== "auto" || !(e instanceof QuotaFetchError) || e.reason !== "no_credentials") {
+        throw e;
+      }
+    }
+  }
+
+  const account = await codexKeyringAccount(codexHome);
+  const location = `keyring (service "${CODEX_KEYRING_SERVICE}", account "${account}")`;
+  const secret = await secretLookup(CODEX_KEYRING_SERVICE, account);
+  if (!secret) {
+    throw new QuotaFetchError("no_credentials", `Codex credentials not found in the ${location}`);
+  }
+  try {
+    return { auth: JSON.parse(secret) as AuthJson, authPath: null, location };
+  } catch (e) {
+    const message = `Failed to parse Codex credentials in the ${location}`;
+    throw new QuotaFetchError("parse_error", message, { cause: e });
+  }
+}
+
+/**
+ * Whether Codex is signed in with an OpenAI API key, which is billed per token and has no
+ * ChatGPT rate limit windows.
+ */
+function isApiKeyAuth(auth: AuthJson): boolean {
+  if (auth.auth_mode) return auth.auth_mode.toLowerCase() === "apikey";
+  return Boolean(auth.OPENAI_API_KEY) && !auth.tokens?.access_token;
+}
+
 async function readAuthJson(authPath: string): Promise<AuthJson> {
   let raw: string;
   try {
@@ -189,20 +614,12 @@ function reasonFromHttpStatus(status: number): "auth_failed" | "endpoint_changed
   return "api_error";
 }
 
-async function fetchCodexRateLimitsFromApi(
-  codexHome: string,
+async function requestCodexUsage(
+  accessToken: string,
+  accountId: string | undefined,
   timeoutMs: number,
   timingSink?: (phase: string, durationMs: number) => void
-): Promise<RateLimitSnapshot> {
-  const authPath = join(codexHome, "auth.json");
-  const auth = await readAuthJson(authPath);
-
-  const accessToken = auth?.tokens?.access_token;
-  if (!accessToken) {
-    throw new QuotaFetchError("no_credentials", `Codex access_token missing in ${authPath}`);
-  }
-
-  const accountId = auth?.tokens?.account_id ?? auth?.account_id;
+): Promise<{ response: Response; bodyText: string }> {
   const headers: Record<string, string> = {
     Authorization: `Bearer ${accessToken}`,
     "Content-Type": "application/json"
@@ -215,15 +632,13 @@ async function fetchCodexRateLimitsFromApi(
   const timer = setTimeout(() => controller.abort(), timeoutMs);
 
   const apiStart = Date.now();
-  let response: Response;
-  let bodyText = "";
   try {
-    response = await fetch("https://chatgpt.com/backend-api/wham/usage", {
+    const response = await fetch("https://chatgpt.com/backend-api/wham/usage", {
       method: "GET",
       headers,
       signal: controller.signal
     });
-    bodyText = await response.text();
+    return { response, bodyText: await response.text() };
   } catch (e) {
     if (e instanceof Error && e.name === "AbortError") {
       throw new QuotaFetchError("timeout", "Codex usage request timed out.", { cause: e });
@@ -235,6 +650,74 @@ async function fetchCodexRateLimitsFromApi(
       timingSink("api", Date.now() - apiStart);
     }
   }
+}
+
+async function fetchCodexRateLimitsFromApi(
+  codexHome: string,
+  timeoutMs: number,
+  options?: FetchCodexRateLimitsOptions
+): Promise<RateLimitSnapshot> {
+  const timingSink = options?.timingSink;
+  const { auth, authPath, location } = await loadCodexAuth(
+    codexHome,
+    options?.secretLookup ?? defaultSecretLookup
+  );
+
+  if (isApiKeyAuth(auth)) {
+    throw new QuotaFetchError("not_applicable", "API key billing");
+  }
+
+  let accessToken = auth?.tokens?.access_token;
+  if (!accessToken) {
+    throw new QuotaFetchError("no_credentials", `Codex access_token missing in ${location}`);
+  }
+  const refreshToken = auth?.tokens?.refresh_token;
+  let idToken = auth?.tokens?.id_token;
+  let refreshed = false;
+
+  const refresh = async (): Promise<string> => {
+    refreshed = true;
+    // Keyring credentials are only read, so a rotated refresh token could not be stored
+    if (!authPath) {
+      throw new QuotaFetchError(
+        "token_expired",
+        `Codex access token in the ${location} needs a refresh; run \`codex\` to refresh it.`
+      );
+    }
+    if (!(options?.persistRefreshedCredentials ?? true)) {
+      throw new QuotaFetchError(
+        "token_expired",
+        "Codex access token needs a refresh, but refreshed credentials may not be written " +
+          "back; run `codex` to refresh it."
+      );
+    }
+    const tokens = await refreshCodexCredentials(authPath, accessToken!, timeoutMs);
+    idToken = tokens.idToken ?? idToken;
+    return tokens.accessToken;
+  };
+
+  if (refreshToken && isCodexTokenStale(auth, accessToken, Date.now())) {
+    accessToken = await refresh();
+  }
+
+  const accountId = auth?.tokens?.account_id ?? auth?.account_id;
+  let { response, bodyText } = await requestCodexUsage(
+    accessToken,
+    accountId,
+    timeoutMs,
+    timingSink
+  );
+
+  // The token can be revoked or expire before its recorded lifetime: refresh once and retry
+  if (response.status === 401 && refreshToken && !refreshed) {
+    accessToken = await refresh();
+    ({ response, bodyText } = await requestCodexUsage(
+      accessToken,
+      accountId,
+      timeoutMs,
+      timingSink
+    ));
+  }
 
   if (!response.ok) {
     const reason = reasonFromHttpStatus(response.status);
@@ -308,21 +791,53 @@ async function fetchCodexRateLimitsFromApi(
     throw new QuotaFetchError("parse_error", "Codex usage response missing primary/secondary windows.");
   }
 
+  const additionalLimits: Record<string, RateLimitGroup> = {};
+  const addLimitGroup = (name: string, value: unknown) => {
+    if (!value || typeof value !== "object") return;
+    const group = value as Record<string, unknown>;
+    const groupPrimary = convertApiWindow(group["primary_window"] ?? group["primaryWindow"]);
+    const groupSecondary = convertApiWindow(group["secondary_window"] ?? group["secondaryWindow"]);
+    if (!groupPrimary && !groupSecondary) return;
+    const limitReached = group["limit_reached"] ?? group["limitReached"];
+    additionalLimits[name] = {
+      primary: groupPrimary,
+      secondary: groupSecondary,
+      limitReached: typeof limitReached === "boolean" ? limitReached : null
+    };
+  };
+  addLimitGroup("code_review", record["code_review_rate_limit"]);
+  const extraLimits = record["additional_rate_limits"];
+  if (Array.isArray(extraLimits)) {
+    for (const entry of extraLimits) {
+      if (!entry || typeof entry !== "object") continue;
+      const e = entry as Record<string, unknown>;
+      const name = e["metered_feature"] ?? e["limit_name"];
+      if (typeof name === "string" && name) addLimitGroup(name, e["rate_limit"]);
+    }
+  }
+
   const planType = typeof record["plan_type"] === "string" ? (record["plan_type"] as string) : null;
   const credits = Object.prototype.hasOwnProperty.call(record, "credits") ? record["credits"] : undefined;
 
-  return { primary, secondary, planType, plan_type: planType, credits };
+  const account = codexAccountFromIdToken(idToken, accountId);
+
+  return { primary, secondary, additionalLimits, planType, plan_type: planType, credits, account };
 }
 
 /**
  * Fetches Codex (ChatGPT) rate limit data from the remote ChatGPT backend API.
  *
- * Reads credentials from `~/.codex/auth.json` and calls the `/backend-api/wham/usage` endpoint.
+ * Reads credentials from `auth.json` in the Codex home (`CODEX_HOME` or `~/.codex`), or from
+ * the OS keyring when Codex is configured to store them there, and calls the
+ * `/backend-api/wham/usage` endpoint. Codex signed in with an API key is reported as
+ * `not_applicable`, since API usage is billed per token and has no rate limit windows. A
+ * stale access token (or one rejected with 401) is refreshed with the stored `refresh_token`
+ * and, unless disabled, persisted back to `auth.json`.
  */
 export async function fetchCodexRateLimits(
   options?: FetchCodexRateLimitsOptions
 ): Promise<RateLimitSnapshot> {
   const codexHome = resolveCodexHome(options?.codexHome);
   const timeoutSeconds = options?.timeoutSeconds ?? 20;
-  return fetchCodexRateLimitsFromApi(codexHome, timeoutSeconds * 1000, options?.timingSink);
+  return fetchCodexRateLimitsFromApi(codexHome, timeoutSeconds * 1000, options);
 }
@@ -1,43 +1,272 @@
 import fs from "node:fs";
 import os from "node:os";
 import path from "node:path";
-import { execSync } from "node:child_process";
-import type { CopilotUsage } from "./types.js";
+import { execFileSync } from "node:child_process";
+import type {
+  CopilotQuotaSnapshot,
+  CopilotTokenSource,
+  CopilotUsage,
+  QuotaWindow
+} from "./types.js";
 import { QuotaFetchError } from "./errors.js";
+import { toAccountIdentity } from "./identity.js";
+import { clampPercent } from "./windows.js";
 
-export type { CopilotUsage } from "./types.js";
+export type { CopilotQuotaSnapshot, CopilotTokenSource, CopilotUsage } from "./types.js";
 
 /**
- * Resolves a GitHub Copilot token from environment variables,
- * local GitHub CLI configuration files, or the 'gh' CLI command.
- * 
+ * Returns the candidate GitHub CLI config directories, in the order `gh` itself uses:
+ * an explicit override, `GH_CONFIG_DIR`, `$XDG_CONFIG_HOME/gh`, `%AppData%/GitHub CLI`,
+ * then `~/.config/gh`.
+ */
+export function getGhConfigDirs(configDir?: string): string[] {
+  if (configDir) return [configDir];
+  const fromEnv = process.env.GH_CONFIG_DIR?.trim();
+  if (fromEnv) return [fromEnv];
+  const dirs: string[] = [];
+  const xdg = process.env.XDG_CONFIG_HOME?.trim();
+  if (xdg) dirs.push(path.join(xdg, "gh"));
+  if (process.platform === "win32" && process.env.APPDATA) {
+    dirs.push(path.join(process.env.APPDATA, "GitHub CLI"));
+  }
+  dirs.push(
+    path.join(os.homedir(), ".config", "gh"),
+    path.join(os.homedir(), "AppData", "Roaming", "GitHub CLI")
+  );
+  return [...new Set(dirs)];
+}
+
+export const DEFAULT_GITHUB_HOST = "github.com";
+
+/** A DNS host name, optionally with a port */
+const HOST_PATTERN =
+  /^[a-z0-9](?:[a-z0-9-]*[a-z0-9])?(?:\.[a-z0-9](?:[a-z0-9-]*[a-z0-9])?)*(?::\d{1,5})?$/;
+
+/** Drops any scheme, path and letter case; returns null when no valid host name remains. */
+function parseGitHubHost(host: string): string | null {
+  const normalized = host
+    .trim()
+    .replace(/^[a-z]+:\/\//i, "")
+    .replace(/\/.*$/, "")
+    .toLowerCase();
+  return HOST_PATTERN.test(normalized) ? normalized : null;
+}
+
+/**
+ * Normalizes a GitHub host name (drops any scheme, path and letter case).
+ *
+ * @throws {QuotaFetchError} When the value is not a host name (optionally with a port)
+ */
+export function normalizeGitHubHost(host: string): string {
+  const normalized = parseGitHubHost(host);
+  if (normalized === null) {
+    throw new QuotaFetchError("unknown", `Invalid GitHub host: ${JSON.stringify(host)}`);
+  }
+  return normalized;
+}
+
+/**
+ * Resolves the GitHub host to use: an explicit host, then `GH_HOST`, then github.com.
+ */
+export function resolveGitHubHost(host?: string): string {
+  const value = host?.trim() || process.env.GH_HOST?.trim() || DEFAULT_GITHUB_HOST;
+  return normalizeGitHubHost(value);
+}
+
+/**
+ * Whether the host is github.com or a GHE.com data-residency tenant (`<tenant>.ghe.com`),
+ * as opposed to a GitHub Enterprise Server instance.
+ */
+function isGitHubCloudHost(host: string): boolean {
+  return host === DEFAULT_GITHUB_HOST || host.endsWith(".ghe.com");
+}
+
+/**
+ * Returns the REST API base URL for a GitHub host: `https://api.github.com`,
+ * `https://api.<tenant>.ghe.com`, or `https://<host>/api/v3` for GitHub Enterprise Server.
+ */
+export function gitHubApiBaseUrl(host: string): string {
+  const normalized = normalizeGitHubHost(host);
+  if (isGitHubCloudHost(normalized)) return `https://api.${normalized}`;
+  return `https://${normalized}/api/v3`;
+}
+
+function unquoteYaml(value: string): string {
+  const trimmed = value.trim();
+  if (
+    trimmed.length >= 2 &&
+    ((trimmed.startsWith('"') && trimmed.endsWith('"')) ||
+      (trimmed.startsWith("'") && trimmed.endsWith("'")))
+  ) {
+    return trimmed.slice(1, -1);
+  }
+  return trimmed;
+}
+
+/**
+ * Parses the GitHub CLI `hosts.yml` into the OAuth token stored for each host.
+ *
+ * Only the subset of YAML that `gh` writes is supported: nested `key: value` maps. A host
+ * without a top-level `oauth_token` falls back to the token of its active `user` under
+ * `users:`. Hosts whose token lives in the system keyring are omitted.
+ */
+export function parseGhHostsYaml(content: string): Record<string, string> {
+  type Node = { [key: string]: string | Node };
+  const root: Node = {};
+  const stack: { indent: number; node: Node }[] = [{ indent: -1, node: root }];
+
+  for (const line of content.split(/\r?\n/)) {
+    if (!line.trim() || line.trim().startsWith("#")) continue;
+    const match = line.match(/^(\s*)([^:#]+?):(?:\s+(.*))?$/);
+    if (!match) continue;
+    const indent = match[1]!.length;
+    const key = unquoteYaml(match[2]!);
+    const value = match[3]?.replace(/\s+#.*$/, "");
+
+    while (stack.length > 1 && stack[stack.length - 1]!.indent >= indent) stack.pop();
+    const parent = stack[stack.length - 1]!.node;
+    if (value === undefined || value === "") {
+      const child: Node = {};
+      parent[key] = child;
+      stack.push({ indent, node: child });
+    } else {
+      parent[key] = unquoteYaml(value);
+    }
+  }
+
+  const tokens: Record<string, string> = {};
+  for (const [host, entry] of Object.entries(root)) {
+    if (typeof entry !== "object") continue;
+    let token = typeof entry.oauth_token === "string" ? entry.oauth_token : undefined;
+    const users = entry.users;
+    if (!token && typeof entry.user === "string" && typeof users === "object") {
+      const active = users[entry.user];
+      if (typeof active === "object" && typeof active.oauth_token === "string") {
+        token = active.oauth_token;
+      }
+    }
+    const normalized = parseGitHubHost(host);
+    if (token && normalized) tokens[normalized] = token;
+  }
+  return tokens;
+}
+
+/**
+ * Returns the candidate directories of the Copilot editor plugins' credential files
+ * (`apps.json` / `hosts.json`): `$XDG_CONFIG_HOME/github-copilot`,
+ * `%LOCALAPPDATA%/github-copilot`, then `~/.config/github-copilot`.
+ */
+export function getCopilotConfigDirs(): string[] {
+  const dirs: string[] = [];
+  const xdg = process.env.XDG_CONFIG_HOME?.trim();
+  if (xdg) dirs.push(path.join(xdg, "github-copilot"));
+  if (process.platform === "win32" && process.env.LOCALAPPDATA) {
+    dirs.push(path.join(process.env.LOCALAPPDATA, "github-copilot"));
+  }
+  dirs.push(path.join(os.homedir(), ".config", "github-copilot"));
+  return [...new Set(dirs)];
+}
+
+/**
+ * Reads the OAuth token stored for a host by the Copilot editor plugins.
+ *
+ * `hosts.json` is keyed by host (`{ "github.com": { "oauth_token": ... } }`) and `apps.json`
+ * by `<host>:<app id>`.
+ */
+export function parseCopilotAppsJson(content: string, host: string): string | null {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(content);
+  } catch {
+    return null;
+  }
+  if (!isRecord(parsed)) return null;
+  for (const [key, entry] of Object.entries(parsed)) {
+    const entryHost = key.includes(":") ? key.slice(0, key.indexOf(":")) : key;
+    if (parseGitHubHost(entryHost) !== host || !isRecord(entry)) continue;
+    if (typeof entry.oauth_token === "string" && entry.oauth_token) return entry.oauth_token;
+  }
+  return null;
+}
+
+/**
+ * Options for `getCopilotToken`.
+ */
+export type GetCopilotTokenOptions = {
+  /**
+   * Config directory (default: `GH_CONFIG_DIR` or the platform default). When given, the
+   * GitHub CLI and Copilot plugin credential files are only looked up in this directory.
+   */
+  configDir?: string;
+  /** GitHub host to find a token for (default: `GH_HOST` or github.com) */
+  host?: string;
+};
+
+/**
+ * A discovered GitHub token and where it came from.
+ */
+export type CopilotToken = {
+  token: string;
+  source: CopilotTokenSource;
+};
+
+/**
+ * Resolves a GitHub Copilot token and reports where it was found.
+ *
  * Order of discovery:
- * 1. GITHUB_TOKEN environment variable
- * 2. GitHub CLI configuration file (~/.config/gh/hosts.yml)
- * 3. `gh auth token` command execution
- * 
+ * 1. Environment variables: `COPILOT_GITHUB_TOKEN`, then `GH_TOKEN` / `GITHUB_TOKEN` for
+ *    github.com and `*.ghe.com` hosts, or `GH_ENTERPRISE_TOKEN` / `GITHUB_ENTERPRISE_TOKEN`
+ *    for GitHub Enterprise Server hosts. They are skipped when `options.configDir` is given,
+ *    since they belong to the process rather than that account
+ * 2. The host's entry in the GitHub CLI `hosts.yml` (in `GH_CONFIG_DIR` or ~/.config/gh)
+ * 3. The Copilot editor plugins' `apps.json` / `hosts.json` (in ~/.config/github-copilot)
+ * 4. `gh auth token --hostname <host>` command execution
+ *
  * @param verbose - Whether to print debug information to stderr
- * @returns The discovered token or null if no token source is found
+ * @param options - Config directory and host overrides
+ * @returns The discovered token and its source, or null if no token source is found
  */
-export function getCopilotToken(verbose: boolean = false): string | null {
-  if (process.env.GITHUB_TOKEN) {
-    if (verbose) process.stderr.write("[verbose] copilot: using token from GITHUB_TOKEN env var\n");
-    return process.env.GITHUB_TOKEN;
+export function discoverCopilotToken(
+  verbose: boolean = false,
+  options?: GetCopilotTokenOptions
+): CopilotToken | null {
+  const host = resolveGitHubHost(options?.host);
+  const envNames = isGitHubCloudHost(host)
+    ? ["COPILOT_GITHUB_TOKEN", "GH_TOKEN", "GITHUB_TOKEN"]
+    : ["COPILOT_GITHUB_TOKEN", "GH_ENTERPRISE_TOKEN", "GITHUB_ENTERPRISE_TOKEN"];
+  // An explicit config dir selects an account: the process-wide token env vars don't apply
+  for (const name of options?.configDir ? [] : envNames) {
+    const value = process.env[name];
+    if (value) {
+      if (verbose) process.stderr.write(`[verbose] copilot: using token from ${name} env var\n`);
+      return { token: value, source: { kind: "env", location: name } };
+    }
   }
-  const candidates = [
-    path.join(os.homedir(), ".config", "gh", "hosts.yml"),
-    path.join(os.homedir(), "AppData", "Roaming", "GitHub CLI", "hosts.yml")
+
+  const files: { path: string; kind: CopilotTokenSource["kind"] }[] = [
+    ...getGhConfigDirs(options?.configDir).map((dir) => ({
+      path: path.join(dir, "hosts.yml"),
+      kind: "gh-config" as const
+    })),
+    ...(options?.configDir ? [options.configDir] : getCopilotConfigDirs()).flatMap((dir) =>
+      ["apps.json", "hosts.json"].map((name) => ({
+        path: path.join(dir, name),
+        kind: "copilot-config" as const
+      }))
+    )
   ];
-  for (const p of candidates) {
+  for (const file of files) {
     try {
-      if (!fs.existsSync(p)) continue;
-      if (verbose) process.stderr.write(`[verbose] copilot: checking ${p}\n`);
-      const content = fs.readFileSync(p, "utf8");
-      // Simple line-by-line search for oauth_token under github.com
-      const match = content.match(/oauth_token:\s*(\S+)/);
-      if (match?.[1]) {
-        if (verbose) process.stderr.write(`[verbose] copilot: found token in ${p}\n`);
-        return match[1];
+      if (!fs.existsSync(file.path)) continue;
+      if (verbose) process.stderr.write(`[verbose] copilot: checking ${file.path} for ${host}\n`);
+      const content = fs.readFileSync(file.path, "utf8");
+      const token =
+        file.kind === "gh-config"
+          ? parseGhHostsYaml(content)[host]
+          : parseCopilotAppsJson(content, host);
+      if (token) {
+        if (verbose) process.stderr.write(`[verbose] copilot: found token in ${file.path}\n`);
+        return { token, source: { kind: file.kind, location: file.path } };
       }
     } catch {
       // ignore
@@ -45,16 +274,25 @@ export function getCopilotToken(verbose: boolean = false): string | null {
   }
 
   // Final fallback: try 'gh auth token'
+  // Run without a shell so that the host is passed as a plain argument
+  const args = ["auth", "token", "--hostname", host];
+  let env = process.env;
+  if (options?.configDir) {
+    // gh prefers the token env vars over its config dir, so hide them from it
+    env = { ...process.env, GH_CONFIG_DIR: options.configDir };
+    for (const name of envNames) delete env[name];
+  }
   try {
-    if (verbose)
-      process.stderr.write("[verbose] copilot: trying 'gh auth token --hostname github.com'\n");
-    const token = execSync("gh auth token --hostname github.com", {
+    if (verbose) process.stderr.write(`[verbose] copilot: trying 'gh ${args.join(" ")}'\n`);
+    const token = execFileSync("gh", args, {
       encoding: "utf8",
-      stdio: ["ignore", "pipe", "ignore"]
+      stdio: ["ignore", "pipe", "ignore"],
+      env,
+      timeout: 5000
     }).trim();
     if (token) {
       if (verbose) process.stderr.write("[verbose] copilot: found token via gh CLI\n");
-      return token;
+      return { token, source: { kind: "gh-cli", location: `gh ${args.join(" ")}` } };
     }
   } catch {
     // ignore
@@ -63,13 +301,33 @@ export function getCopilotToken(verbose: boolean = false): string | null {
   return null;
 }
 
+/**
+ * Resolves a GitHub Copilot token from environment variables, local GitHub CLI and
+ * Copilot plugin configuration files, or the 'gh' CLI command.
+ *
+ * See `discoverCopilotToken` for the discovery order.
+ *
+ * @param verbose - Whether to print debug information to stderr
+ * @param options - Config directory and host overrides
+ * @returns The discovered token or null if no token source is found
+ */
+export function getCopilotToken(
+  verbose: boolean = false,
+  options?: GetCopilotTokenOptions
+): string | null {
+  return discoverCopilotToken(verbose, options)?.token ?? null;
+}
+
 const DEFAULT_API_BASE_URL = "https://api.github.com";
 const DEFAULT_API_VERSION = "2025-05-01";
 
 export type FetchCopilotRateLimitsOptions = {
   token: string;
   timeoutSeconds?: number;
+  /** API base URL; takes precedence over `host` */
   apiBaseUrl?: string;
+  /** GitHub host whose API is called (e.g. `octo.ghe.com`); default github.com */
+  host?: string;
   apiVersion?: string;
 };
 
@@ -99,41 +357,144 @@ function normalizeApiBaseUrl(value: string | undefined): string {
   return base.endsWith("/") ? base.slice(0, -1) : base;
 }
 
+function parseQuotaSnapshot(id: string, value: unknown): CopilotQuotaSnapshot | null {
+  if (!isRecord(value)) return null;
+  const unlimited = value.unlimited === true;
+  const percentRemaining = toNumber(value.percent_remaining);
+  const entitlement = toNumber(value.entitlement);
+  if (!unlimited && (percentRemaining === null || entitlement === null)) return null;
+
+  return {
+    id,
+    unlimited,
+    percentRemaining: unlimited ? 100 : normalizePercent(percentRemaining ?? 100),
+    entitlement: entitlement ?? 0,
+    remaining: toNumber(value.remaining) ?? toNumber(value.quota_remaining),
+    overageUsed: toNumber(value.overage_count) ?? 0,
+    overageEnabled: value.overage_permitted === true
+  };
+}
+
+/**
+ * Reads the Copilot Free counters: `monthly_quotas` holds each category's allowance and
+ * `limited_user_quotas` what is left of it.
+ */
+function parseLimitedUserQuotas(data: Record<string, unknown>): CopilotQuotaSnapshot[] {
+  const monthly = data.monthly_quotas;
+  if (!isRecord(monthly)) return [];
+  const remainingById = isRecord(data.limited_user_quotas) ? data.limited_user_quotas : {};
+
+  const snapshots: CopilotQuotaSnapshot[] = [];
+  for (const [id, value] of Object.entries(monthly)) {
+    const entitlement = toNumber(value);
+    if (entitlement === null) continue;
+    const remaining = toNumber(remainingById[id]) ?? entitlement;
+    snapshots.push({
+      id,
+      unlimited: false,
+      percentRemaining: entitlement > 0 ? normalizePercent((remaining / entitlement) * 100) : 0,
+      entitlement,
+      remaining,
+      overageUsed: 0,
+      overageEnabled: false
+    });
+  }
+  return snapshots;
+}
+
+/**
+ * Picks the snapshot reported in the top-level `CopilotUsage` fields: premium requests when
+ * present, otherwise the limited category with the least quota left.
+ */
+function primaryQuota(quotas: Record<string, CopilotQuotaSnapshot>): CopilotQuotaSnapshot | null {
+  const premium = quotas.premium_interactions;
+  if (premium) return premium;
+  let best: CopilotQuotaSnapshot | null = null;
+  for (const quota of Object.values(quotas)) {
+    if (!best || (best.unlimited && !quota.unlimited)) {
+      best = quota;
+      continue;
+    }
+    if (!quota.unlimited && quota.percentRemaining < best.percentRemaining) best = quota;
+  }
+  return best;
+}
+
+function buildUsage(
+  quotas: Record<string, CopilotQuotaSnapshot>,
+  resetAt: Date,
+  source: CopilotUsage["source"],
+  raw: unknown
+): CopilotUsage | null {
+  const primary = primaryQuota(quotas);
+  if (!primary) return null;
+  return {
+    percentRemaining: primary.percentRemaining,
+    resetAt,
+    entitlement: primary.entitlement,
+    overageUsed: primary.overageUsed,
+    overageEnabled: primary.overageEnabled,
+    quotas,
+    source,
+    raw
+  };
+}
+
 /**
  * Parses a GitHub Copilot user info response body into a CopilotUsage snapshot.
  *
- * Returns null when the response does not contain the expected fields.
+ * Every category in `quota_snapshots` is read, as are the Copilot Free
+ * `limited_user_quotas`/`monthly_quotas` counters. Returns null when the response does not
+ * contain any quota or a reset date.
  */
 export function parseCopilotUserInfo(data: unknown, _now: Date = new Date()): CopilotUsage | null {
   if (!isRecord(data)) return null;
 
-  const quotaSnapshots = data.quota_snapshots;
-  if (!isRecord(quotaSnapshots)) return null;
-
-  const premium = quotaSnapshots.premium_interactions;
-  if (!isRecord(premium)) return null;
-
-  const entitlement = toNumber(premium.entitlement);
-  const percentRemaining = toNumber(premium.percent_remaining);
-  const resetText = typeof data.quota_reset_date === "string" ? data.quota_reset_date : null;
+  const quotas: Record<string, CopilotQuotaSnapshot> = {};
+  if (isRecord(data.quota_snapshots)) {
+    for (const [id, value] of Object.entries(data.quota_snapshots)) {
+      const snapshot = parseQuotaSnapshot(id, value);
+      if (snapshot) quotas[id] = snapshot;
+    }
+  }
+  for (const snapshot of parseLimitedUserQuotas(data)) {
+    quotas[snapshot.id] ??= snapshot;
+  }
 
-  if (entitlement === null || percentRemaining === null || !resetText) return null;
+  const resetText =
+    typeof data.quota_reset_date === "string"
+      ? data.quota_reset_date
+      : typeof data.limited_user_reset_date === "string"
+        ? data.limited_user_reset_date
+        : null;
+  if (!resetText) return null;
 
   const resetAt = new Date(resetText);
   if (Number.isNaN(resetAt.getTime())) return null;
 
-  const overageUsed = toNumber(premium.overage_count) ?? 0;
-  const overageEnabled = premium.overage_permitted === true;
+  const usage = buildUsage(quotas, resetAt, "user", data);
+  if (!usage) return null;
+  const optionalString = (value: unknown): string | null =>
+    typeof value === "string" && value.length > 0 ? value : null;
+  usage.copilotPlan = optionalString(data.copilot_plan);
+  usage.accessTypeSku = optionalString(data.access_type_sku);
+  const organizations = Array.isArray(data.organization_login_list)
+    ? data.organization_login_list
+    : [];
+  usage.account = toAccountIdentity({ login: data.login, organization: organizations[0] });
+  return usage;
+}
 
-  return {
-    percentRemaining: normalizePercent(percentRemaining),
-    resetAt,
-    entitlement,
-    overageUsed,
-    overageEnabled,
-    source: "user",
-    raw: data
-  };
+/**
+ * Returns the normalized Copilot plan, or null when unknown. The SKU tells Copilot Free
+ * (`free`) and Pro+ (`pro+`) apart from other individual plans; otherwise `copilot_plan`
+ * (`individual`, `business`, `enterprise`) is used.
+ */
+export function copilotPlan(usage: CopilotUsage): string | null {
+  const sku = usage.accessTypeSku ?? "";
+  if (sku.startsWith("free_")) return "free";
+  if (sku.startsWith("plus_")) return "pro+";
+  return usage.copilotPlan ?? (sku || null);
 }
 
 /**
@@ -141,10 +502,13 @@ export function parseCopilotUserInfo(data: unknown, _now: Date = new Date()): Co
  *
  * The header is formatted as URL search params, e.g.:
  * `ent=3000&rem=64&rst=2026-02-15T00:00:00Z&ov=0&ovPerm=false`
+ *
+ * @param quotaId - Category the header describes (the `x-quota-snapshot-<id>` suffix)
  */
 export function parseCopilotQuotaHeader(
   headerValue: string,
-  now: Date = new Date()
+  now: Date = new Date(),
+  quotaId: string = "premium_interactions"
 ): CopilotUsage | null {
   const trimmed = headerValue.trim();
   if (!trimmed) return null;
@@ -162,18 +526,41 @@ export function parseCopilotQuotaHeader(
     resetAt.setMonth(resetAt.getMonth() + 1);
   }
 
-  const overageUsed = toNumber(params.get("ov")) ?? 0;
-  const overageEnabled = params.get("ovPerm") === "true";
-
-  return {
-    percentRemaining: normalizePercent(percentRemaining),
-    resetAt,
-    entitlement,
-    overageUsed,
-    overageEnabled,
-    source: "header",
-    raw: headerValue
+  const unlimited = entitlement === -1;
+  const snapshot: CopilotQuotaSnapshot = {
+    id: quotaId,
+    unlimited,
+    percentRemaining: unlimited ? 100 : normalizePercent(percentRemaining),
+    entitlement: unlimited ? 0 : entitlement,
+    remaining: null,
+    overageUsed: toNumber(params.get("ov")) ?? 0,
+    overageEnabled: params.get("ovPerm") === "true"
   };
+
+  return buildUsage({ [quotaId]: snapshot }, resetAt, "header", headerValue);
+}
+
+/** Categories reported in `x-quota-snapshot-<id>` response headers. */
+const HEADER_QUOTA_IDS = ["premium_interactions", "chat", "completions"] as const;
+
+/**
+ * Combines the per-category header snapshots into one usage value (the first reset date wins).
+ */
+function parseQuotaHeaders(headers: Headers, now: Date): CopilotUsage | null {
+  const quotas: Record<string, CopilotQuotaSnapshot> = {};
+  const raw: Record<string, string> = {};
+  let resetAt: Date | null = null;
+  for (const id of HEADER_QUOTA_IDS) {
+    const value =
+      headers.get(`x-quota-snapshot-${id}`) ||
+      (id === "premium_interactions" ? headers.get("x-quota-snapshot-premium_models") : null);
+    const usage = value ? parseCopilotQuotaHeader(value, now, id) : null;
+    if (!value || !usage) continue;
+    Object.assign(quotas, usage.quotas);
+    raw[id] = value;
+    resetAt ??= usage.resetAt;
+  }
+  return resetAt ? buildUsage(quotas, resetAt, "header", raw) : null;
 }
 
 /**
@@ -191,7 +578,9 @@ export async function fetchCopilotRateLimits(
   options: FetchCopilotRateLimitsOptions,
   now: Date = new Date()
 ): Promise<CopilotUsage | null> {
-  const baseUrl = normalizeApiBaseUrl(options.apiBaseUrl);
+  const baseUrl = normalizeApiBaseUrl(
+    options.apiBaseUrl ?? (options.host ? gitHubApiBaseUrl(options.host) : undefined)
+  );
   const url = `${baseUrl}/copilot_internal/user`;
   const controller = new AbortController();
   const timeoutSeconds = options.timeoutSeconds ?? 20;
@@ -210,10 +599,7 @@ export async function fetchCopilotRateLimits(
       signal: controller.signal
     });
 
-    const headerValue =
-      response.headers.get("x-quota-snapshot-premium_interactions") ||
-      response.headers.get("x-quota-snapshot-premium_models");
-    const headerUsage = headerValue ? parseCopilotQuotaHeader(headerValue, now) : null;
+    const headerUsage = parseQuotaHeaders(response.headers, now);
 
     const bodyText = await response.text();
     if (!response.ok) {
@@ -255,3 +641,43 @@ export async function fetchCopilotRateLimits(
     clearTimeout(timeout);
   }
 }
+
+const QUOTA_SCOPES: Record<string, string> = {
+  premium_interactions: "premium requests",
+  chat: "chat",
+  completions: "completions"
+};
+
+/**
+ * Converts a Copilot usage snapshot into normalized quota windows, one per limited quota
+ * category (unlimited categories are left out).
+ *
+ * Copilot quotas reset monthly, so the window length is the calendar month that ends at
+ * `resetAt`.
+ */
+export function copilotUsageToWindows(data: CopilotUsage): QuotaWindow[] {
+  const cycleStart = new Date(data.resetAt.getTime());
+  cycleStart.setUTCMonth(cycleStart.getUTCMonth() - 1);
+  return Object.values(data.quotas)
+    .filter((quota) => !quota.unlimited)
+    .map((quota) => {
+      const window: QuotaWindow = {
+        id: quota.id,
+        label: "monthly",
+        usedPercent: clampPercent(100 - quota.percentRemaining),
+        resetAt: data.resetAt,
+        windowDurationMs: data.resetAt.getTime() - cycleStart.getTime(),
+        scope: QUOTA_SCOPES[quota.id] ?? quota.id,
+        overage: quota.overageUsed
+      };
+      if (quota.entitlement > 0) {
+        // Prefer the reported count; otherwise derive it from the entitlement
+        window.limit = quota.entitlement;
+        window.remaining = Math.max(
+          0,
+          quota.remaining ?? Math.round((quota.entitlement * quota.percentRemaining) / 100)
+        );
+      }
+      return window;
+    });
+}
@@ -0,0 +1,157 @@
+/**
+ * Safe file writes for credential files shared with the agents' own CLIs, and for
+ * ai-quota's own cache files.
+ *
+ * Writes go to a temporary file that is renamed over the target, so a concurrent reader
+ * never sees a truncated file. Read-modify-write cycles hold an advisory lock file
+ * (`<file>.lock`) that every ai-quota process honors.
+ */
+
+import fs from "node:fs";
+import path from "node:path";
+
+/**
+ * Options for `withFileLock`.
+ */
+export type FileLockOptions = {
+  /** How long to wait for another process to release the lock (default: 5000ms) */
+  timeoutMs?: number;
+  /** Age after which a lock left behind by a crashed process is broken (default: 30000ms) */
+  staleMs?: number;
+};
+
+const LOCK_RETRY_MS = 50;
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+function errorCode(e: unknown): string | undefined {
+  return e && typeof e === "object" && "code" in e ? String(e.code) : undefined;
+}
+
+/**
+ * Runs `fn` while holding the advisory lock for `filePath` (the file `<filePath>.lock`).
+ *
+ * @throws Error when the lock cannot be acquired within `timeoutMs`
+ */
+export async function withFileLock<T>(
+  filePath: string,
+  fn: () => T | Promise<T>,
+  options?: FileLockOptions
+): Promise<T> {
+  const lockPath = `${filePath}.lock`;
+  const timeoutMs = options?.timeoutMs ?? 5000;
+  const staleMs = options?.staleMs ?? 30_000;
+  const deadline = Date.now() + timeoutMs;
+
+  for (;;) {
+    try {
+      const fd = fs.openSync(lockPath, "wx");
+      fs.writeSync(fd, String(process.pid));
+      fs.closeSync(fd);
+      break;
+    } catch (e) {
+      if (errorCode(e) !== "EEXIST") throw e;
+    }
+
+    try {
+      if (Date.now() - fs.statSync(lockPath).mtimeMs > staleMs) {
+        fs.rmSync(lockPath, { force: true });
+        continue;
+      }
+    } catch {
+      // The holder released the lock in the meantime
+      continue;
+    }
+    if (Date.now() >= deadline) {
+      throw new Error(`Timed out waiting for lock ${lockPath}`);
+    }
+    await sleep(LOCK_RETRY_MS);
+  }
+
+  try {
+    return await fn();
+  } finally {
+    fs.rmSync(lockPath, { force: true });
+  }
+}
+
+/**
+ * Replaces `filePath` with `contents` atomically (temporary file + rename).
+ *
+ * The file keeps its current permission bits; a new file is created with `mode`
+ * (default: 0o600, as credential files should not be readable by others).
+ */
+export function writeFileAtomic(
+  filePath: string,
+  contents: string,
+  options?: { mode?: number }
+): void {
+  let mode = options?.mode ?? 0o600;
+  try {
+    mode = fs.statSync(filePath).mode & 0o777;
+  } catch {
+    // New file
+  }
+
+  const tmpPath = path.join(
+    path.dirname(filePath),
+    `.${path.basename(filePath)}.${process.pid}.${Date.now().toString(36)}.tmp`
+  );
+  try {
+    const fd = fs.openSync(tmpPath, "wx", mode);
+    try {
+      fs.writeFileSync(fd, contents, "utf8");
+      fs.fsyncSync(fd);
+    } finally {
+      fs.closeSync(fd);
+    }
+    // openSync applies the umask; set the exact bits before the file becomes visible
+    fs.chmodSync(tmpPath, mode);
+    fs.renameSync(tmpPath, filePath);
+  } catch (e) {
+    fs.rmSync(tmpPath, { force: true });
+    throw e;
+  }
+}
+
+/**
+ * Options for `updateJsonFile`.
+ */
+export type UpdateJsonFileOptions = FileLockOptions & {
+  /**
+   * Start from an empty object (creating the file and its directory) when the file does
+   * not exist yet (default: false, which throws instead)
+   */
+  createIfMissing?: boolean;
+};
+
+/**
+ * Re-reads a JSON file under its lock, applies `update` and writes the result back
+ * atomically. Changes made to the file by other programs since it was first read are kept.
+ *
+ * @throws Error when the lock cannot be acquired or the file is not a JSON object
+ */
+export async function updateJsonFile(
+  filePath: string,
+  update: (current: Record<string, unknown>) => Record<string, unknown>,
+  options?: UpdateJsonFileOptions
+): Promise<void> {
+  if (options?.createIfMissing) fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  await withFileLock(
+    filePath,
+    () => {
+      const current =
+        options?.createIfMissing && !fs.existsSync(filePath)
+          ? {}
+          : (JSON.parse(fs.readFileSync(filePath, "utf8")) as unknown);
+      if (!current || typeof current !== "object" || Array.isArray(current)) {
+        throw new Error(`${filePath} does not contain a JSON object`);
+      }
+      const next = update(current as Record<string, unknown>);
+      writeFileAtomic(filePath, JSON.stringify(next, null, 2));
+    },
+    options
+  );
+}
@@ -0,0 +1,86 @@
+/**
+ * Burn-rate forecasts for the windows of quota results, measured against earlier readings in
+ * the quota history.
+ */
+
+import { readQuotaHistory } from "./history.js";
+import type { HistoryOptions, HistoryRecord } from "./history.js";
+import { forecastWindow, isSameWindowPeriod } from "./windows.js";
+import type { QuotaResult, QuotaWindow } from "./types.js";
+
+/**
+ * Options for the burn-rate forecasts of `fetchAllRateLimits`.
+ */
+export type ForecastOptions = {
+  /**
+   * How far back to look for the reading the burn rate is measured from, in minutes
+   * (default: 60). The oldest reading of the window's current period within this range is used.
+   */
+  lookbackMinutes?: number;
+  /** Quota history holding the readings (default: the history in the ai-quota cache directory) */
+  history?: HistoryOptions;
+};
+
+/** Default `ForecastOptions.lookbackMinutes` */
+export const DEFAULT_FORECAST_LOOKBACK_MINUTES = 60;
+
+/** Readings closer together than this give a too noisy burn rate */
+const MIN_READING_SPAN_MS = 60 * 1000;
+
+function baselineReading(
+  records: HistoryRecord[],
+  agent: string,
+  window: QuotaWindow,
+  readingAt: Date,
+  lookbackMs: number
+): HistoryRecord | null {
+  const from = readingAt.getTime() - lookbackMs;
+  const to = readingAt.getTime() - MIN_READING_SPAN_MS;
+  // Records are sorted oldest first, so the first match spans the longest time
+  return (
+    records.find(
+      (r) =>
+        r.agent === agent &&
+        r.window === window.id &&
+        r.at.getTime() >= from &&
+        r.at.getTime() <= to &&
+        isSameWindowPeriod(r.resetAt, window.resetAt)
+    ) ?? null
+  );
+}
+
+/**
+ * Adds burn-rate forecasts (`burnRatePercentPerHour`, `projectedExhaustionAt`,
+ * `willExhaustBeforeReset`) to the windows of successful results (keyed by result key) that
+ * have an earlier reading in the quota history. Other results and windows are returned as-is.
+ */
+export function forecastQuotaResults(
+  results: Record<string, QuotaResult<unknown>>,
+  options?: ForecastOptions,
+  now: Date = new Date()
+): Record<string, QuotaResult<unknown>> {
+  const lookbackMs =
+    Math.max(0, options?.lookbackMinutes ?? DEFAULT_FORECAST_LOOKBACK_MINUTES) * 60 * 1000;
+  const readingTimes = Object.values(results).map((r) => (r.fetchedAt ?? now).getTime());
+  if (readingTimes.length === 0) return results;
+  const records = readQuotaHistory({
+    ...options?.history,
+    since: new Date(Math.min(...readingTimes) - lookbackMs)
+  });
+
+  const forecasted: Record<string, QuotaResult<unknown>> = {};
+  for (const [key, result] of Object.entries(results)) {
+    if (result.status !== "ok") {
+      forecasted[key] = result;
+      continue;
+    }
+    const readingAt = result.fetchedAt ?? now;
+    const windows = result.windows.map((window) => {
+      const previous = baselineReading(records, key, window, readingAt, lookbackMs);
+      const forecast = previous && forecastWindow(window, previous, readingAt);
+      return forecast ? { ...window, ...forecast } : window;
+    });
+    forecasted[key] = { ...result, windows };
+  }
+  return forecasted;
+}
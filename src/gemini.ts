@@ -1,8 +1,14 @@
 import fs from "node:fs";
 import path from "node:path";
 import os from "node:os";
-import type { GeminiUsage } from "./types.js";
+import { execSync } from "node:child_process";
+import { createHash } from "node:crypto";
+import type { AccountIdentity, GeminiModelUsage, GeminiUsage, QuotaWindow } from "./types.js";
 import { QuotaFetchError } from "./errors.js";
+import { updateJsonFile } from "./file-store.js";
+import { decodeJwtClaims, toAccountIdentity } from "./identity.js";
+import { getCacheDir } from "./utils.js";
+import { DAY_MS, clampPercent } from "./windows.js";
 
 export type { GeminiUsage, GeminiModelUsage } from "./types.js";
 
@@ -14,13 +20,15 @@ type RefreshAccessTokenResult = {
   expiryDate?: number;
 };
 
-type GeminiOauthClientInfo = {
+export type GeminiOauthClientInfo = {
   clientId?: string;
   clientSecret?: string;
+  /** "env", or the file the constants were read from */
   source?: string;
 };
 
-let cachedGeminiOauthClientInfo: GeminiOauthClientInfo | null = null;
+/** undefined until the first lookup; null when no client info was found */
+let cachedGeminiOauthClientInfo: GeminiOauthClientInfo | null | undefined;
 
 function getClientIdFromIdToken(idToken: unknown): string | undefined {
   if (typeof idToken !== "string") return undefined;
@@ -51,8 +59,11 @@ function readGeminiOauthClientInfoFromEnv(): GeminiOauthClientInfo | null {
 }
 
 function extractOauthConstantsFromJs(content: string): GeminiOauthClientInfo | null {
-  const clientIdMatch = content.match(/const\s+OAUTH_CLIENT_ID\s*=\s*['"]([^'"]+)['"]/);
-  const clientSecretMatch = content.match(/const\s+OAUTH_CLIENT_SECRET\s*=\s*['"]([^'"]+)['"]/);
+  // Matches both the unbundled source (`const`) and the npm bundle (`var`)
+  const clientIdMatch = content.match(/(?:const|let|var)\s+OAUTH_CLIENT_ID\s*=\s*['"]([^'"]+)['"]/);
+  const clientSecretMatch = content.match(
+    /(?:const|let|var)\s+OAUTH_CLIENT_SECRET\s*=\s*['"]([^'"]+)['"]/
+  );
   const clientId = clientIdMatch?.[1];
   const clientSecret = clientSecretMatch?.[1];
 
@@ -65,49 +76,208 @@ function extractOauthConstantsFromJs(content: string): GeminiOauthClientInfo | n
   };
 }
 
-function tryReadGeminiCliOauthClientInfoFromWellKnownPaths(): GeminiOauthClientInfo | null {
-  const candidates: string[] = [];
+const OAUTH2_MODULE_PATH = ["dist", "src", "code_assist", "oauth2.js"];
+
+/** Files that may define the OAuth constants inside an installed `@google/gemini-cli` package. */
+function geminiCliPackageFiles(packageDir: string): string[] {
+  return [
+    path.join(packageDir, "node_modules", "@google", "gemini-cli-core", ...OAUTH2_MODULE_PATH),
+    path.join(packageDir, "bundle", "gemini.js")
+  ];
+}
+
+/** Files that may define the OAuth constants in a global `node_modules` directory. */
+function nodeModulesFiles(nodeModulesDir: string): string[] {
+  return [
+    ...geminiCliPackageFiles(path.join(nodeModulesDir, "@google", "gemini-cli")),
+    path.join(nodeModulesDir, "@google", "gemini-cli-core", ...OAUTH2_MODULE_PATH)
+  ];
+}
+
+function listSubdirs(dir: string): string[] {
+  try {
+    return fs
+      .readdirSync(dir, { withFileTypes: true })
+      .filter((entry) => entry.isDirectory())
+      .map((entry) => path.join(dir, entry.name))
+      .sort((a, b) => b.localeCompare(a, undefined, { numeric: true }));
+  } catch {
+    return [];
+  }
+}
+
+/** The global `node_modules` directory of an npm-style install prefix. */
+function prefixNodeModules(prefix: string): string {
+  return process.platform === "win32"
+    ? path.join(prefix, "node_modules")
+    : path.join(prefix, "lib", "node_modules");
+}
+
+/**
+ * Global `node_modules` directories of the usual Node.js installs: the configured npm
+ * prefix, nvm, fnm, Volta, pnpm and bun (newest versions first), then the system, Homebrew
+ * and per-user npm prefixes.
+ */
+function globalNodeModulesDirs(): string[] {
+  const home = os.homedir();
+  const env = process.env;
+  const dirs: string[] = [];
+
+  const npmPrefix = env.npm_config_prefix || env.NPM_CONFIG_PREFIX;
+  if (npmPrefix) dirs.push(prefixNodeModules(npmPrefix));
+
+  // nvm (nvm-windows keeps versions directly under NVM_HOME)
+  const nvmDir = env.NVM_DIR || path.join(home, ".nvm");
+  for (const version of listSubdirs(path.join(nvmDir, "versions", "node"))) {
+    dirs.push(prefixNodeModules(version));
+  }
+  if (env.NVM_HOME) {
+    for (const version of listSubdirs(env.NVM_HOME)) dirs.push(prefixNodeModules(version));
+  }
+
+  // fnm
+  if (env.FNM_MULTISHELL_PATH) dirs.push(prefixNodeModules(env.FNM_MULTISHELL_PATH));
+  const fnmDirs = [
+    env.FNM_DIR,
+    path.join(env.XDG_DATA_HOME || path.join(home, ".local", "share"), "fnm"),
+    path.join(home, ".fnm"),
+    path.join(home, "Library", "Application Support", "fnm"),
+    env.APPDATA ? path.join(env.APPDATA, "fnm") : undefined
+  ];
+  for (const fnmDir of fnmDirs) {
+    if (!fnmDir) continue;
+    for (const version of listSubdirs(path.join(fnmDir, "node-versions"))) {
+      dirs.push(prefixNodeModules(path.join(version, "installation")));
+    }
+  }
+
+  // Volta installs each global package into its own image
+  const voltaHome = env.VOLTA_HOME || path.join(home, ".volta");
+  dirs.push(
+    prefixNodeModules(path.join(voltaHome, "tools", "image", "packages", "@google", "gemini-cli"))
+  );
+
+  // pnpm keeps global packages under <PNPM_HOME>/global/<layout version>/node_modules
+  const pnpmHomes = [
+    env.PNPM_HOME,
+    path.join(env.XDG_DATA_HOME || path.join(home, ".local", "share"), "pnpm"),
+    path.join(home, "Library", "pnpm"),
+    env.LOCALAPPDATA ? path.join(env.LOCALAPPDATA, "pnpm") : undefined
+  ];
+  for (const pnpmHome of pnpmHomes) {
+    if (!pnpmHome) continue;
+    for (const layout of listSubdirs(path.join(pnpmHome, "global"))) {
+      dirs.push(path.join(layout, "node_modules"));
+    }
+  }
+
+  // bun
+  const bunInstall = env.BUN_INSTALL || path.join(home, ".bun");
+  dirs.push(path.join(bunInstall, "install", "global", "node_modules"));
 
+  // System-wide and user npm prefixes
   if (process.platform === "win32") {
-    const appData = process.env.APPDATA;
-    if (appData) {
-      const npmGlobal = path.join(appData, "npm", "node_modules");
-      candidates.push(
-        path.join(
-          npmGlobal,
-          "@google",
-          "gemini-cli",
-          "node_modules",
-          "@google",
-          "gemini-cli-core",
-          "dist",
-          "src",
-          "code_assist",
-          "oauth2.js"
-        ),
-        path.join(npmGlobal, "@google", "gemini-cli-core", "dist", "src", "code_assist", "oauth2.js")
-      );
+    if (env.APPDATA) dirs.push(path.join(env.APPDATA, "npm", "node_modules"));
+    if (env.NVM_SYMLINK) dirs.push(path.join(env.NVM_SYMLINK, "node_modules"));
+  } else {
+    dirs.push(
+      "/usr/local/lib/node_modules",
+      "/usr/lib/node_modules",
+      "/opt/homebrew/lib/node_modules",
+      path.join(home, ".npm-global", "lib", "node_modules"),
+      path.join(home, ".local", "lib", "node_modules")
+    );
+  }
+
+  return [...new Set(dirs)];
+}
+
+/**
+ * Follows the `gemini` executable on PATH back to the `@google/gemini-cli` package it
+ * belongs to (npm links `bin/gemini` to a file inside the package).
+ */
+function geminiCliPackageDirFromPath(): string | null {
+  if (process.platform === "win32") return null;
+  for (const dir of (process.env.PATH ?? "").split(path.delimiter)) {
+    if (!dir) continue;
+    let current: string;
+    try {
+      current = fs.realpathSync(path.join(dir, "gemini"));
+    } catch {
+      continue;
+    }
+    for (let i = 0; i < 6; i++) {
+      const parent = path.dirname(current);
+      if (parent === current) break;
+      current = parent;
+      try {
+        const pkg = JSON.parse(fs.readFileSync(path.join(current, "package.json"), "utf8")) as {
+          name?: unknown;
+        };
+        if (pkg.name === "@google/gemini-cli") return current;
+      } catch {
+        // not the package root yet
+      }
     }
   }
+  return null;
+}
+
+function npmGlobalRoot(): string | null {
+  try {
+    const root = execSync("npm root -g", {
+      encoding: "utf8",
+      stdio: ["ignore", "pipe", "ignore"],
+      timeout: 5000
+    }).trim();
+    return root || null;
+  } catch {
+    return null;
+  }
+}
 
-  for (const filePath of candidates) {
+function readOauthClientInfoFromFiles(files: string[]): GeminiOauthClientInfo | null {
+  for (const filePath of files) {
     try {
       if (!fs.existsSync(filePath)) continue;
       const content = fs.readFileSync(filePath, "utf8");
       const extracted = extractOauthConstantsFromJs(content);
-      if (extracted) return extracted;
+      if (extracted) return { ...extracted, source: filePath };
     } catch {
       // ignore and continue
     }
   }
-
   return null;
 }
 
+/**
+ * Reads the OAuth client constants from an installed Gemini CLI.
+ *
+ * Looks at the package behind the `gemini` executable on PATH, then the global
+ * `node_modules` directories of npm, nvm, fnm, Volta, pnpm and bun, and finally the
+ * directory reported by `npm root -g`.
+ */
+export function findGeminiCliOauthClientInfo(): GeminiOauthClientInfo | null {
+  const packageDir = geminiCliPackageDirFromPath();
+  const fromPath = packageDir
+    ? readOauthClientInfoFromFiles(geminiCliPackageFiles(packageDir))
+    : null;
+  if (fromPath) return fromPath;
+
+  const fromWellKnown = readOauthClientInfoFromFiles(
+    globalNodeModulesDirs().flatMap(nodeModulesFiles)
+  );
+  if (fromWellKnown) return fromWellKnown;
+
+  const npmRoot = npmGlobalRoot();
+  return npmRoot ? readOauthClientInfoFromFiles(nodeModulesFiles(npmRoot)) : null;
+}
+
 function getGeminiOauthClientInfo(): GeminiOauthClientInfo | null {
-  if (cachedGeminiOauthClientInfo) return cachedGeminiOauthClientInfo;
+  // A failed lookup is cached too: it scans the disk and may spawn `npm root -g`
+  if (cachedGeminiOauthClientInfo !== undefined) return cachedGeminiOauthClientInfo;
   cachedGeminiOauthClientInfo =
-    readGeminiOauthClientInfoFromEnv() ?? tryReadGeminiCliOauthClientInfoFromWellKnownPaths();
+    readGeminiOauthClientInfoFromEnv() ?? findGeminiCliOauthClientInfo();
   return cachedGeminiOauthClientInfo;
 }
 
@@ -179,8 +349,27 @@ async function refreshAccessToken(options: {
   return { accessToken: data.access_token as string, expiryDate };
 }
 
-async function getCredentials(timeoutMs: number): Promise<{ accessToken: string }> {
-  const credsPath = path.join(os.homedir(), ".gemini", "oauth_creds.json");
+/**
+ * Resolves the Gemini CLI config directory: an explicit override, then
+ * `$GEMINI_CLI_HOME/.gemini` (as honored by Gemini CLI), then `~/.gemini`.
+ */
+export function getGeminiConfigDir(configDir?: string): string {
+  if (configDir) return configDir;
+  const home = process.env.GEMINI_CLI_HOME?.trim() || os.homedir();
+  return path.join(home, ".gemini");
+}
+
+async function getCredentials(
+  timeoutMs: number,
+  configDir?: string,
+  persist: boolean = true
+): Promise<{
+  accessToken: string;
+  credsPath: string;
+  identity: string;
+  account: AccountIdentity | null;
+}> {
+  const credsPath = path.join(getGeminiConfigDir(configDir), "oauth_creds.json");
   if (!fs.existsSync(credsPath)) {
     throw new QuotaFetchError("no_credentials", `Gemini OAuth credentials not found at ${credsPath}`);
   }
@@ -236,21 +425,34 @@ async function getCredentials(timeoutMs: number): Promise<{ accessToken: string
       });
       accessToken = refreshed.accessToken;
 
-      try {
-        creds.access_token = accessToken;
-        if (typeof refreshed.expiryDate === "number") {
-          creds.expiry_date = refreshed.expiryDate;
+      if (persist) {
+        try {
+          await updateJsonFile(credsPath, (current) => ({
+            ...current,
+            access_token: refreshed.accessToken,
+            ...(typeof refreshed.expiryDate === "number"
+              ? { expiry_date: refreshed.expiryDate }
+              : {})
+          }));
+        } catch {
+          // Best-effort: keep the refreshed token in memory even if persisting fails.
         }
-        fs.writeFileSync(credsPath, JSON.stringify(creds, null, 2), "utf8");
-      } catch {
-        // Best-effort: keep the refreshed token in memory even if persisting fails.
       }
     } else {
       throw new QuotaFetchError("token_expired", "Gemini access token expired and no refresh token available.");
     }
   }
 
-  return { accessToken: accessToken as string };
+  const identity =
+    typeof creds.refresh_token === "string" && creds.refresh_token ? creds.refresh_token : "";
+  // The id_token names the Google account; `hd` is the Workspace domain, when there is one
+  const claims = decodeJwtClaims(creds.id_token) ?? {};
+  const account = toAccountIdentity({
+    email: claims.email,
+    organization: claims.hd,
+    accountId: claims.sub
+  });
+  return { accessToken: accessToken as string, credsPath, identity, account };
 }
 
 function reasonFromHttpStatus(status: number): "auth_failed" | "endpoint_changed" | "api_error" {
@@ -260,13 +462,90 @@ function reasonFromHttpStatus(status: number): "auth_failed" | "endpoint_changed
 }
 
 /**
- * Fetches Gemini quota usage from the Cloud Code Assist API.
- *
- * @param timeoutMs - Per-request timeout in milliseconds (default: 10000ms)
+ * Resolves an explicitly configured Code Assist project: the given project, then
+ * `GOOGLE_CLOUD_PROJECT` / `GOOGLE_CLOUD_PROJECT_ID` (as honored by Gemini CLI).
+ * Returns null when none is set.
+ */
+export function resolveGeminiProject(project?: string): string | null {
+  return (
+    project?.trim() ||
+    process.env.GOOGLE_CLOUD_PROJECT?.trim() ||
+    process.env.GOOGLE_CLOUD_PROJECT_ID?.trim() ||
+    null
+  );
+}
+
+const PROJECT_CACHE_FILE = "gemini-projects.json";
+
+/**
+ * Identifies an account in the project cache: its credentials file plus the refresh token,
+ * so signing in as someone else in the same directory does not reuse the old project.
+ */
+function projectCacheKey(credsPath: string, identity: string): string {
+  return createHash("sha256")
+    .update(`${path.resolve(credsPath)}\0${identity}`)
+    .digest("hex")
+    .slice(0, 32);
+}
+
+/**
+ * What `loadCodeAssist` reports for an account: its Code Assist project and tier.
  */
-export async function fetchGeminiRateLimits(timeoutMs: number = 10000): Promise<GeminiUsage> {
-  const { accessToken } = await getCredentials(timeoutMs);
+type CodeAssistInfo = {
+  project: string;
+  /** Normalized tier (e.g. `free`, `standard`, `g1-pro`), when reported */
+  tier: string | null;
+};
 
+function readCachedProject(key: string): CodeAssistInfo | null {
+  try {
+    const cache = JSON.parse(
+      fs.readFileSync(path.join(getCacheDir(), PROJECT_CACHE_FILE), "utf8")
+    ) as Record<string, { project?: unknown; tier?: unknown } | undefined>;
+    const project = cache[key]?.project;
+    const tier = cache[key]?.tier;
+    if (typeof project !== "string" || !project) return null;
+    return { project, tier: typeof tier === "string" && tier ? tier : null };
+  } catch {
+    return null;
+  }
+}
+
+async function writeCachedProject(key: string, info: CodeAssistInfo): Promise<void> {
+  try {
+    await updateJsonFile(
+      path.join(getCacheDir(), PROJECT_CACHE_FILE),
+      (current) => ({ ...current, [key]: { ...info, resolvedAt: new Date().toISOString() } }),
+      { createIfMissing: true }
+    );
+  } catch {
+    // Best-effort: the project is looked up again next time.
+  }
+}
+
+/**
+ * Normalizes a `loadCodeAssist` tier: the paid tier (Google One AI Pro/Ultra) when present,
+ * else the current tier, as its id without the `-tier` suffix.
+ */
+function parseCodeAssistTier(loadData: Record<string, unknown>): string | null {
+  for (const field of ["paidTier", "currentTier"]) {
+    const tier = loadData[field];
+    const id =
+      tier && typeof tier === "object" && "id" in tier && typeof tier.id === "string"
+        ? tier.id
+        : null;
+    if (id) return id.replace(/-tier$/, "");
+  }
+  return null;
+}
+
+/**
+ * Looks up the Code Assist project and tier of the signed-in user with `loadCodeAssist`.
+ */
+async function loadCodeAssistProject(
+  accessToken: string,
+  timeoutMs: number
+): Promise<CodeAssistInfo> {
   const loadRes = await fetchWithTimeout(
     "https://cloudcode-pa.googleapis.com/v1internal:loadCodeAssist",
     {
@@ -302,12 +581,26 @@ export async function fetchGeminiRateLimits(timeoutMs: number = 10000): Promise<
     throw new QuotaFetchError("parse_error", "loadCodeAssist returned invalid JSON.", { cause: e });
   }
 
-  const projectId = loadData.cloudaicompanionProject;
+  // Usually a project ID string; onboarding responses carry a `{ id, name }` object
+  const project = loadData.cloudaicompanionProject as unknown;
+  const projectId =
+    typeof project === "string"
+      ? project
+      : project && typeof project === "object" && "id" in project && typeof project.id === "string"
+        ? project.id
+        : null;
   if (!projectId) {
     throw new QuotaFetchError("parse_error", "No cloudaicompanionProject found in loadCodeAssist response.");
   }
+  return { project: projectId, tier: parseCodeAssistTier(loadData) };
+}
 
-  const quotaRes = await fetchWithTimeout(
+function retrieveUserQuota(
+  accessToken: string,
+  projectId: string,
+  timeoutMs: number
+): Promise<Response> {
+  return fetchWithTimeout(
     "https://cloudcode-pa.googleapis.com/v1internal:retrieveUserQuota",
     {
       method: "POST",
@@ -320,6 +613,85 @@ export async function fetchGeminiRateLimits(timeoutMs: number = 10000): Promise<
     },
     timeoutMs
   );
+}
+
+/**
+ * Options for `fetchGeminiRateLimits`.
+ */
+export type FetchGeminiRateLimitsOptions = {
+  /** Gemini CLI config directory (default: `$GEMINI_CLI_HOME/.gemini` or `~/.gemini`) */
+  configDir?: string;
+  /**
+   * Whether a refreshed access token is written back to `oauth_creds.json` (default: true).
+   * The file is updated atomically under an advisory lock. Set to false to keep the
+   * refreshed token in memory only.
+   */
+  persistRefreshedCredentials?: boolean;
+  /**
+   * Google Cloud project to read the Code Assist quota of (for Code Assist Standard /
+   * Enterprise). Default: `GOOGLE_CLOUD_PROJECT`, then the project `loadCodeAssist` reports.
+   */
+  project?: string;
+  /**
+   * Whether the project reported by `loadCodeAssist` is cached per account in the ai-quota
+   * cache directory, so later calls skip that request (default: true)
+   */
+  cacheProject?: boolean;
+  /**
+   * Receives the account's normalized Code Assist tier (e.g. `free`, `standard`, `g1-pro`),
+   * or null when it is unknown (an explicit project that was never looked up).
+   */
+  planSink?: (plan: string | null) => void;
+  /**
+   * Receives the signed-in Google account read from the `id_token` in `oauth_creds.json`,
+   * or null when it is unknown.
+   */
+  accountSink?: (account: AccountIdentity | null) => void;
+};
+
+/**
+ * Fetches Gemini quota usage from the Cloud Code Assist API.
+ *
+ * The Code Assist project is taken from `options.project` or `GOOGLE_CLOUD_PROJECT`, or
+ * else from `loadCodeAssist`, whose answer is cached per account.
+ *
+ * @param timeoutMs - Per-request timeout in milliseconds (default: 10000ms)
+ * @param options - Config directory, project and refresh behavior options
+ */
+export async function fetchGeminiRateLimits(
+  timeoutMs: number = 10000,
+  options?: FetchGeminiRateLimitsOptions
+): Promise<GeminiUsage> {
+  const { accessToken, credsPath, identity, account } = await getCredentials(
+    timeoutMs,
+    options?.configDir,
+    options?.persistRefreshedCredentials ?? true
+  );
+  options?.accountSink?.(account);
+
+  const explicitProject = resolveGeminiProject(options?.project);
+  const useCache = !explicitProject && (options?.cacheProject ?? true);
+  const cacheKey = projectCacheKey(credsPath, identity);
+
+  const cached = (options?.cacheProject ?? true) ? readCachedProject(cacheKey) : null;
+  let info: CodeAssistInfo | null = explicitProject ? null : cached;
+  const fromCache = info !== null;
+  if (!explicitProject && !info) {
+    info = await loadCodeAssistProject(accessToken, timeoutMs);
+    if (useCache) await writeCachedProject(cacheKey, info);
+  }
+  let projectId = explicitProject ?? info!.project;
+
+  let quotaRes = await retrieveUserQuota(accessToken, projectId, timeoutMs);
+  if (fromCache && (quotaRes.status === 403 || quotaRes.status === 404)) {
+    // The cached project is no longer usable for this account; look it up again
+    info = await loadCodeAssistProject(accessToken, timeoutMs);
+    await writeCachedProject(cacheKey, info);
+    projectId = info.project;
+    quotaRes = await retrieveUserQuota(accessToken, projectId, timeoutMs);
+  }
+  // With an explicit project the tier is only known from an earlier lookup
+  options?.planSink?.(info?.tier ?? cached?.tier ?? null);
 
   const quotaText = await quotaRes.text();
   if (!quotaRes.ok) {
@@ -356,10 +728,63 @@ export async function fetchGeminiRateLimits(timeoutMs: number = 10000): Promise<
         throw new QuotaFetchError("parse_error", "Gemini quota bucket resetTime was invalid.");
       }
 
-      usage[modelId] = { limit, usage: used, resetAt };
+      const modelUsage: GeminiModelUsage = { limit, usage: used, resetAt, modelId };
+      const tokenType =
+        typeof bucket.tokenType === "string" && bucket.tokenType ? bucket.tokenType : undefined;
+      if (tokenType) modelUsage.tokenType = tokenType;
+      // remainingAmount is an int64, which the API encodes as a string
+      const remainingAmount = Number(bucket.remainingAmount ?? Number.NaN);
+      if (Number.isFinite(remainingAmount)) modelUsage.remainingAmount = remainingAmount;
+
+      // Keep every bucket: a model with several token types gets one entry per type, and a
+      // bucket whose key is still taken (a repeated or missing token type) a numbered one
+      const base = usage[modelId] && tokenType ? `${modelId}/${tokenType}` : modelId;
+      let key = base;
+      for (let n = 2; usage[key]; n++) key = `${base}#${n}`;
+      usage[key] = modelUsage;
     }
   }
 
   return usage;
 }
 
+/**
+ * Returns the model family a Gemini model ID belongs to ("pro", "flash"), or null.
+ */
+export function geminiModelFamily(modelId: string): "pro" | "flash" | null {
+  if (modelId.includes("pro")) return "pro";
+  if (modelId.includes("flash")) return "flash";
+  return null;
+}
+
+/**
+ * Converts Gemini per-model usage into normalized quota windows (one per bucket, daily).
+ *
+ * Each window is scoped to its model family ("pro", "flash") or, for other models, the model ID.
+ */
+export function geminiUsageToWindows(data: GeminiUsage): QuotaWindow[] {
+  const windows: QuotaWindow[] = [];
+  for (const [key, usage] of Object.entries(data)) {
+    if (!usage) continue;
+    const modelId = usage.modelId ?? key;
+    const usedPercent = usage.limit > 0 ? (usage.usage / usage.limit) * 100 : usage.usage;
+    const window: QuotaWindow = {
+      id: key,
+      label: "24h",
+      usedPercent: clampPercent(usedPercent),
+      resetAt: usage.resetAt,
+      windowDurationMs: DAY_MS,
+      scope: geminiModelFamily(modelId) ?? modelId
+    };
+    if (usage.remainingAmount !== undefined) {
+      window.remaining = usage.remainingAmount;
+      // The bucket only reports the fraction left, so the limit follows from both
+      const remainingFraction = 1 - clampPercent(usedPercent) / 100;
+      if (remainingFraction > 0) {
+        window.limit = Math.round(usage.remainingAmount / remainingFraction);
+      }
+    }
+    windows.push(window);
+  }
+  return windows;
+}
@@ -0,0 +1,282 @@
+/**
+ * Local, append-only history of quota snapshots.
+ *
+ * Every recorded result adds one JSON line per quota window to `history.jsonl` in the ai-quota
+ * cache directory. Once the file grows past `compactBytes` it is compacted: records older than
+ * the retention period are dropped, and records of the same window closer together than the
+ * resolution are merged into the latest of them.
+ */
+
+import fs from "node:fs";
+import path from "node:path";
+import { withFileLock, writeFileAtomic } from "./file-store.js";
+import { formatTextTable } from "./human-output.js";
+import { splitAgentKey } from "./providers.js";
+import { getCacheDir } from "./utils.js";
+import type { QuotaResult } from "./types.js";
+
+/**
+ * Where the history is stored and how it is kept small.
+ */
+export type HistoryOptions = {
+  /** Directory holding `history.jsonl` (default: the ai-quota cache directory) */
+  dir?: string;
+  /** Days a record is kept (default: 30) */
+  retentionDays?: number;
+  /**
+   * Records of the same window closer together than this many seconds are merged into the
+   * latest of them on compaction (default: 900)
+   */
+  resolutionSeconds?: number;
+  /** Size in bytes past which the store is compacted after a write (default: 1 MiB) */
+  compactBytes?: number;
+};
+
+/**
+ * One quota window of one recorded snapshot.
+ */
+export type HistoryRecord = {
+  /** When the snapshot was fetched */
+  at: Date;
+  /** Result key (agent id or `<agent>:<account>`) */
+  agent: string;
+  /** Window id (`QuotaWindow.id`) */
+  window: string;
+  /** Window label (`QuotaWindow.label`) */
+  label: string;
+  usedPercent: number;
+  resetAt: Date | null;
+  /** Absolute amount left, when the API reports one */
+  remaining: number | null;
+  /** Absolute size of the window's quota, when the API reports one */
+  limit: number | null;
+};
+
+const DEFAULT_RETENTION_DAYS = 30;
+const DEFAULT_RESOLUTION_SECONDS = 900;
+const DEFAULT_COMPACT_BYTES = 1024 * 1024;
+
+function historyFilePath(options?: HistoryOptions): string {
+  return path.join(options?.dir ?? getCacheDir(), "history.jsonl");
+}
+
+function serializeRecord(record: HistoryRecord): string {
+  return JSON.stringify({
+    ...record,
+    at: record.at.toISOString(),
+    resetAt: record.resetAt?.toISOString() ?? null
+  });
+}
+
+function parseRecord(line: string): HistoryRecord | null {
+  try {
+    const raw = JSON.parse(line) as Record<string, unknown>;
+    const at = typeof raw.at === "string" ? new Date(raw.at) : null;
+    if (!at || Number.isNaN(at.getTime())) return null;
+    if (typeof raw.agent !== "string" || typeof raw.window !== "string") return null;
+    if (typeof raw.usedPercent !== "number") return null;
+    const resetAt = typeof raw.resetAt === "string" ? new Date(raw.resetAt) : null;
+    return {
+      at,
+      agent: raw.agent,
+      window: raw.window,
+      label: typeof raw.label === "string" ? raw.label : raw.window,
+      usedPercent: raw.usedPercent,
+      resetAt: resetAt && !Number.isNaN(resetAt.getTime()) ? resetAt : null,
+      remaining: typeof raw.remaining === "number" ? raw.remaining : null,
+      limit: typeof raw.limit === "number" ? raw.limit : null
+    };
+  } catch {
+    return null;
+  }
+}
+
+function readRecords(filePath: string): HistoryRecord[] {
+  let text: string;
+  try {
+    text = fs.readFileSync(filePath, "utf8");
+  } catch {
+    return [];
+  }
+  const records: HistoryRecord[] = [];
+  for (const line of text.split("\n")) {
+    if (!line.trim()) continue;
+    const record = parseRecord(line);
+    if (record) records.push(record);
+  }
+  return records;
+}
+
+/**
+ * Converts results into history records. Only results fetched from the agent's API are
+ * recorded: results served from the result cache (including stale ones) were recorded when
+ * they were fetched.
+ */
+export function historyRecordsFromResults(
+  results: Record<string, QuotaResult<unknown>>,
+  now: Date = new Date()
+): HistoryRecord[] {
+  const records: HistoryRecord[] = [];
+  for (const [agent, result] of Object.entries(results)) {
+    if (result.status !== "ok" || result.fromCache || result.stale) continue;
+    for (const window of result.windows) {
+      records.push({
+        at: result.fetchedAt ?? now,
+        agent,
+        window: window.id,
+        label: window.label,
+        usedPercent: window.usedPercent,
+        resetAt: window.resetAt,
+        remaining: window.remaining ?? null,
+        limit: window.limit ?? null
+      });
+    }
+  }
+  return records;
+}
+
+/**
+ * Appends the windows of the given results (keyed by result key) to the history, and compacts
+ * it when it has grown past `compactBytes`.
+ */
+export async function recordQuotaHistory(
+  results: Record<string, QuotaResult<unknown>>,
+  options?: HistoryOptions
+): Promise<void> {
+  const records = historyRecordsFromResults(results);
+  if (records.length === 0) return;
+  const filePath = historyFilePath(options);
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  // Appends take the lock too, so that a compaction in another process does not drop them
+  const size = await withFileLock(filePath, () => {
+    fs.appendFileSync(filePath, records.map((r) => serializeRecord(r) + "\n").join(""), {
+      mode: 0o600
+    });
+    return fs.statSync(filePath).size;
+  });
+  if (size > (options?.compactBytes ?? DEFAULT_COMPACT_BYTES)) {
+    await compactQuotaHistory(options);
+  }
+}
+
+/**
+ * Compacts the history: drops records older than the retention period and merges records
+ * of the same window (and reset time) within one resolution interval into the latest of
+ * them. Returns the number of records kept.
+ */
+export async function compactQuotaHistory(
+  options?: HistoryOptions,
+  now: Date = new Date()
+): Promise<number> {
+  const filePath = historyFilePath(options);
+  const retentionMs = (options?.retentionDays ?? DEFAULT_RETENTION_DAYS) * 24 * 60 * 60 * 1000;
+  const resolutionMs = Math.max(
+    1000,
+    (options?.resolutionSeconds ?? DEFAULT_RESOLUTION_SECONDS) * 1000
+  );
+  if (!fs.existsSync(filePath)) return 0;
+  return withFileLock(filePath, () => {
+    const cutoff = now.getTime() - retentionMs;
+    const latest = new Map<string, HistoryRecord>();
+    for (const record of readRecords(filePath)) {
+      if (record.at.getTime() < cutoff) continue;
+      const bucket = Math.floor(record.at.getTime() / resolutionMs);
+      const key = [record.agent, record.window, record.resetAt?.getTime() ?? "", bucket].join("|");
+      const kept = latest.get(key);
+      if (!kept || kept.at.getTime() <= record.at.getTime()) latest.set(key, record);
+    }
+    const kept = [...latest.values()].sort((a, b) => a.at.getTime() - b.at.getTime());
+    writeFileAtomic(filePath, kept.map((r) => serializeRecord(r) + "\n").join(""));
+    return kept.length;
+  });
+}
+
+/**
+ * Reads the recorded history, oldest first. `agent` selects an agent id (including its named
+ * accounts) or a single `<agent>:<account>` key; `since` drops older records.
+ */
+export function readQuotaHistory(
+  options?: HistoryOptions & { agent?: string; since?: Date }
+): HistoryRecord[] {
+  const agent = options?.agent;
+  const since = options?.since?.getTime() ?? -Infinity;
+  return readRecords(historyFilePath(options))
+    .filter((r) => r.at.getTime() >= since)
+    .filter(
+      (r) =>
+        agent === undefined ||
+        r.agent === agent ||
+        (!agent.includes(":") && splitAgentKey(r.agent).agent === agent)
+    )
+    .sort((a, b) => a.at.getTime() - b.at.getTime());
+}
+
+/**
+ * Parses a `--since` value: a duration before `now` (`30m`, `12h`, `7d`, `2w`) or a date.
+ * Returns null when the value is neither.
+ */
+export function parseHistorySince(value: string, now: Date = new Date()): Date | null {
+  const match = /^(\d+(?:\.\d+)?)\s*(m|h|d|w)$/i.exec(value.trim());
+  if (match) {
+    const unitMs = { m: 60_000, h: 3_600_000, d: 86_400_000, w: 604_800_000 }[
+      match[2]!.toLowerCase() as "m" | "h" | "d" | "w"
+    ];
+    return new Date(now.getTime() - Number(match[1]) * unitMs);
+  }
+  const date = new Date(value);
+  return value.trim() && !Number.isNaN(date.getTime()) ? date : null;
+}
+
+/** `2026-10-19 10:05` (UTC) */
+function formatTimestamp(date: Date | null): string {
+  return date ? date.toISOString().slice(0, 16).replace("T", " ") : "-";
+}
+
+function formatRecordRemaining(record: HistoryRecord): string {
+  if (record.remaining === null) return "-";
+  return record.limit !== null ? `${record.remaining}/${record.limit}` : String(record.remaining);
+}
+
+/**
+ * Formats history records as a table with TIME, AGENT, WINDOW, USED, REMAINING and RESETS
+ * columns (times in UTC).
+ */
+export function formatHistoryTable(records: HistoryRecord[]): string {
+  return formatTextTable(
+    ["TIME (UTC)", "AGENT", "WINDOW", "USED", "REMAINING", "RESETS"],
+    records.map((r) => [
+      formatTimestamp(r.at),
+      r.agent,
+      r.window,
+      `${Math.round(r.usedPercent)}%`,
+      formatRecordRemaining(r),
+      formatTimestamp(r.resetAt)
+    ])
+  );
+}
+
+function csvField(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * Formats history records as CSV with a header row.
+ */
+export function formatHistoryCsv(records: HistoryRecord[]): string {
+  const header = "at,agent,window,label,used_percent,remaining,limit,reset_at";
+  const rows = records.map((r) =>
+    [
+      r.at.toISOString(),
+      r.agent,
+      r.window,
+      r.label,
+      String(r.usedPercent),
+      r.remaining === null ? "" : String(r.remaining),
+      r.limit === null ? "" : String(r.limit),
+      r.resetAt?.toISOString() ?? ""
+    ]
+      .map(csvField)
+      .join(",")
+  );
+  return [header, ...rows].join("\n");
+}
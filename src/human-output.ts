@@ -4,43 +4,73 @@ import type {
   GeminiUsage,
   RateLimitSnapshot,
   QuotaResult,
+  QuotaWindow,
   CopilotUsage
 } from "./types.js";
-import type { SupportedAgent } from "./index.js";
+import type { AgentId } from "./index.js";
 import { formatResetIn } from "./utils.js";
-import { rateLimitSnapshotToStatus } from "./codex.js";
+import { formatAccountIdentity } from "./identity.js";
+import { clampPercent, formatWindowsForecast, windowPace } from "./windows.js";
+import { claudeExtraUsagePercent, claudeUsageToWindows, formatClaudeExtraUsage } from "./claude.js";
+import { formatCodexCredits, parseCodexCredits, rateLimitSnapshotToWindows } from "./codex.js";
+import { copilotUsageToWindows } from "./copilot.js";
+import { geminiModelFamily, geminiUsageToWindows } from "./gemini.js";
+import { getProvider, splitAgentKey } from "./providers.js";
+import { formatStaleMarker } from "./result-cache.js";
 
 export type HumanStatus =
   | "CAN_USE"
   | "LOW_QUOTA"
   | "WAIT_RESET"
   | "LOGIN_REQUIRED"
+  | "NOT_APPLICABLE"
   | "FETCH_FAILED";
 
-export type HumanLimit = "7d" | "5h" | "pro" | "flash" | "-";
+/** Label of the limiting window; providers added with `registerProvider()` may use their own. */
+export type HumanLimit = "7d" | "5h" | "pro" | "flash" | "extra" | "-" | (string & {});
 
 export type HumanRow = {
   agent: string;
   status: HumanStatus;
+  /** Subscription plan or tier (the result's `plan`); shown as "-" when absent */
+  plan?: string;
+  /** Signed-in account (the result's `account`); the ACCOUNT column is shown when set */
+  account?: string;
   limit: HumanLimit;
+  /**
+   * Absolute amount left in the limiting window, e.g. "84/300" (REMAINING column); only set
+   * when `showRemaining` is requested
+   */
+  remaining?: string;
+  /**
+   * Burn-rate forecast of the row's windows, e.g. "100% in 1h 10m, before reset" (FORECAST
+   * column); only set when `showForecast` is requested
+   */
+  forecast?: string;
+  details: string;
+};
+
+/** Columns of a table row besides its agent name */
+type RowColumns = {
+  status: HumanStatus;
+  limit: HumanLimit;
+  remaining?: string;
+  forecast?: string;
   details: string;
 };
 
 type UsageWindow = {
-  label: "5h" | "7d";
+  label: string;
   usedPercent: number;
   resetAt: Date;
   /** Optional disambiguator for windows with the same label (e.g., Claude 7d all-models vs Sonnet-only). */
   suffix?: string;
   /** Deterministic tie-break for equal usedPercent+resetAt. Lower sorts first. */
   tieBreaker?: number;
+  /** Absolute amount left (see `formatRemaining`), when known */
+  remaining?: string;
 };
 
-function clampPercent(value: number): number {
-  if (!Number.isFinite(value)) return 0;
-  return Math.min(100, Math.max(0, value));
-}
-
 function compareMostConstraining(a: UsageWindow, b: UsageWindow): number {
   if (a.usedPercent !== b.usedPercent) return b.usedPercent - a.usedPercent;
   const resetDiff = a.resetAt.getTime() - b.resetAt.getTime();
@@ -51,10 +81,32 @@ function compareMostConstraining(a: UsageWindow, b: UsageWindow): number {
   return (a.suffix ?? "").localeCompare(b.suffix ?? "");
 }
 
-function deriveStatusFromUsedPercent(usedPercent: number): HumanStatus {
+/**
+ * Percentage points by which usage may run ahead of the elapsed share of its window before a
+ * pace-aware status turns LOW_QUOTA.
+ */
+export const PACE_LOW_QUOTA_MARGIN_PERCENT = 20;
+
+/**
+ * Derives the status of a window from its used percentage: WAIT_RESET at 100%, LOW_QUOTA from
+ * 80%, else CAN_USE. Given the window's `elapsedPercent` (pace-aware), usage at least
+ * `PACE_LOW_QUOTA_MARGIN_PERCENT` points ahead of the elapsed share of the window is LOW_QUOTA
+ * too, e.g. 60% used 30 minutes into a 5h window, but not 60% used after 4.5 hours.
+ */
+export function deriveStatusFromUsedPercent(
+  usedPercent: number,
+  elapsedPercent?: number | null
+): HumanStatus {
   const clamped = clampPercent(usedPercent);
   if (clamped >= 100) return "WAIT_RESET";
   if (clamped >= 80) return "LOW_QUOTA";
+  if (
+    elapsedPercent !== undefined &&
+    elapsedPercent !== null &&
+    clamped - clampPercent(elapsedPercent) >= PACE_LOW_QUOTA_MARGIN_PERCENT
+  ) {
+    return "LOW_QUOTA";
+  }
   return "CAN_USE";
 }
 
@@ -67,6 +119,7 @@ function deriveStatusFromResult(result: QuotaResult<unknown>, usedPercent: numbe
 
   if (result.status === "no-data") {
     if (result.reason && loginReasons.has(result.reason)) return "LOGIN_REQUIRED";
+    if (result.reason === "not_applicable") return "NOT_APPLICABLE";
     return "FETCH_FAILED";
   }
 
@@ -74,6 +127,85 @@ function deriveStatusFromResult(result: QuotaResult<unknown>, usedPercent: numbe
   return deriveStatusFromUsedPercent(usedPercent);
 }
 
+/**
+ * With `pace`, turns CAN_USE into LOW_QUOTA when any of the windows is used well ahead of the
+ * elapsed share of its period (as of the result's fetch time).
+ */
+function withPaceStatus(
+  status: HumanStatus,
+  windows: QuotaWindow[],
+  result: QuotaResult<unknown>,
+  now: Date,
+  pace: boolean
+): HumanStatus {
+  if (!pace || status !== "CAN_USE") return status;
+  const readingAt = result.fetchedAt ?? now;
+  const ahead = windows.some(
+    (w) =>
+      deriveStatusFromUsedPercent(w.usedPercent, windowPace(w, readingAt).elapsedPercent) !==
+      "CAN_USE"
+  );
+  return ahead ? "LOW_QUOTA" : status;
+}
+
+/**
+ * DETAILS text for statuses that have no usage to show, or null for usable statuses.
+ */
+function unavailableDetails(status: HumanStatus, result: QuotaResult<unknown>): string | null {
+  if (status === "LOGIN_REQUIRED") {
+    return result.reason ? `login required (${result.reason})` : "login required";
+  }
+  if (status === "NOT_APPLICABLE") return result.display;
+  if (status === "FETCH_FAILED") {
+    return result.reason ? `fetch failed (${result.reason})` : "fetch failed";
+  }
+  return null;
+}
+
+/**
+ * REMAINING text for a window with absolute amounts, e.g. "84/300" or "0/300 (+12 overage)".
+ */
+function formatRemaining(window: QuotaWindow | undefined): string | undefined {
+  if (window?.remaining === undefined) return undefined;
+  const amount =
+    window.limit !== undefined ? `${window.remaining}/${window.limit}` : `${window.remaining}`;
+  return window.overage ? `${amount} (+${window.overage} overage)` : amount;
+}
+
+/**
+ * Copies the forecast fields of the result's windows onto windows re-derived from its data,
+ * matching them by id.
+ */
+function withForecasts(windows: QuotaWindow[], result: QuotaResult<unknown>): QuotaWindow[] {
+  const forecasted = new Map(
+    result.windows.filter((w) => w.burnRatePercentPerHour !== undefined).map((w) => [w.id, w])
+  );
+  if (forecasted.size === 0) return windows;
+  return windows.map((w) => {
+    const f = forecasted.get(w.id);
+    return f
+      ? {
+          ...w,
+          burnRatePercentPerHour: f.burnRatePercentPerHour,
+          projectedExhaustionAt: f.projectedExhaustionAt,
+          willExhaustBeforeReset: f.willExhaustBeforeReset
+        }
+      : w;
+  });
+}
+
+/**
+ * FORECAST text for the given windows of a result, when any of them has a forecast.
+ */
+function forecastColumn(
+  windows: QuotaWindow[],
+  result: QuotaResult<unknown>,
+  now: Date
+): { forecast?: string } {
+  const forecast = formatWindowsForecast(withForecasts(windows, result), now);
+  return forecast !== null ? { forecast } : {};
+}
+
 function formatWindowDetails(windows: UsageWindow[], now: Date): string {
   return windows
     .map((w) => {
@@ -83,197 +215,258 @@ function formatWindowDetails(windows: UsageWindow[], now: Date): string {
     .join(", ");
 }
 
-function buildClaudeRow(
-  result: QuotaResult<ClaudeUsageData>,
-  now: Date
-): { status: HumanStatus; limit: HumanLimit; details: string } {
-  const windows: UsageWindow[] = [];
-
-  const data = result.data;
-  const hasTwoSevenDay = Boolean(data?.seven_day && data?.seven_day_sonnet);
-
-  if (data?.five_hour) {
-    const resetAt = new Date(data.five_hour.resets_at);
-    if (Number.isFinite(resetAt.getTime())) {
-      windows.push({
-        label: "5h",
-        usedPercent: clampPercent(Math.round(data.five_hour.utilization)),
-        resetAt,
-        tieBreaker: 0
-      });
-    }
-  }
-
-  if (data?.seven_day) {
-    const resetAt = new Date(data.seven_day.resets_at);
-    if (Number.isFinite(resetAt.getTime())) {
-      windows.push({
-        label: "7d",
-        usedPercent: clampPercent(Math.round(data.seven_day.utilization)),
-        resetAt,
-        suffix: hasTwoSevenDay ? " (all models)" : undefined,
-        tieBreaker: 0
-      });
-    }
-  }
+/**
+ * Converts normalized windows into table windows. Windows sharing a label get their
+ * scope as a suffix (e.g., Claude 7d all-models vs Sonnet-only); windows without a
+ * reset time are skipped.
+ */
+function toUsageWindows(quotaWindows: QuotaWindow[]): UsageWindow[] {
+  const labelCounts = new Map<string, number>();
+  for (const w of quotaWindows) labelCounts.set(w.label, (labelCounts.get(w.label) ?? 0) + 1);
 
-  if (data?.seven_day_sonnet) {
-    const resetAt = new Date(data.seven_day_sonnet.resets_at);
-    if (Number.isFinite(resetAt.getTime())) {
-      windows.push({
-        label: "7d",
-        usedPercent: clampPercent(Math.round(data.seven_day_sonnet.utilization)),
-        resetAt,
-        suffix: hasTwoSevenDay ? " (sonnet only)" : undefined,
-        tieBreaker: hasTwoSevenDay ? 1 : 0
-      });
-    }
-  }
+  const windows: UsageWindow[] = [];
+  quotaWindows.forEach((w, index) => {
+    if (!w.resetAt) return;
+    const shared = (labelCounts.get(w.label) ?? 0) > 1;
+    windows.push({
+      label: w.label,
+      usedPercent: clampPercent(Math.round(w.usedPercent)),
+      resetAt: w.resetAt,
+      suffix: shared && w.scope ? ` (${w.scope})` : undefined,
+      tieBreaker: index,
+      remaining: formatRemaining(w)
+    });
+  });
+  return windows;
+}
 
+function buildWindowedRow(
+  result: QuotaResult<unknown>,
+  quotaWindows: QuotaWindow[],
+  now: Date,
+  pace: boolean
+): RowColumns {
+  const windows = toUsageWindows(quotaWindows);
   windows.sort(compareMostConstraining);
 
   const limitingUsed = windows.length > 0 ? windows[0]!.usedPercent : null;
-  const status = deriveStatusFromResult(result as unknown as QuotaResult<unknown>, limitingUsed);
+  const status = withPaceStatus(
+    deriveStatusFromResult(result, limitingUsed),
+    quotaWindows,
+    result,
+    now,
+    pace
+  );
 
-  if (status === "LOGIN_REQUIRED") {
-    return {
-      status,
-      limit: "-",
-      details: result.reason ? `login required (${result.reason})` : "login required"
-    };
-  }
-  if (status === "FETCH_FAILED") {
-    return {
-      status,
-      limit: "-",
-      details: result.reason ? `fetch failed (${result.reason})` : "fetch failed"
-    };
-  }
+  const unavailable = unavailableDetails(status, result);
+  if (unavailable !== null) return { status, limit: "-", details: unavailable };
 
   const limit: HumanLimit = windows.length > 0 ? windows[0]!.label : "-";
   const details = windows.length > 0 ? formatWindowDetails(windows, now) : "no data";
-  return { status, limit, details };
+  const remaining = windows[0]?.remaining;
+  const forecast = forecastColumn(quotaWindows, result, now);
+  return remaining !== undefined
+    ? { status, limit, remaining, ...forecast, details }
+    : { status, limit, ...forecast, details };
 }
 
-function buildCodexRow(
-  result: QuotaResult<RateLimitSnapshot>,
-  now: Date
-): { status: HumanStatus; limit: HumanLimit; details: string } {
-  const data = result.data;
-  const statusObj = data ? rateLimitSnapshotToStatus(data, now) : null;
-  const windows: UsageWindow[] = [];
-
-  for (const w of statusObj?.windows ?? []) {
-    const usedPercent = clampPercent(Math.round(100 - w.percentLeft));
-    if (w.label === "5h" || w.label === "7d") {
-      windows.push({ label: w.label, usedPercent, resetAt: w.resetAt });
-    }
+function buildClaudeRow(
+  result: QuotaResult<ClaudeUsageData>,
+  now: Date,
+  pace: boolean
+): RowColumns {
+  const windows = result.data ? claudeUsageToWindows(result.data) : [];
+  const row = buildWindowedRow(result, windows, now, pace);
+  if (result.status !== "ok" || !result.data) return row;
+
+  const extra = formatClaudeExtraUsage(result.data);
+  if (!extra) return row;
+  const details = row.details === "no data" ? extra : `${row.details}, ${extra}`;
+  // Spending most of the monthly extra-usage limit is worth a warning even when the
+  // plan windows are fine
+  const extraPercent = claudeExtraUsagePercent(result.data);
+  if (
+    row.status === "CAN_USE" &&
+    extraPercent !== null &&
+    deriveStatusFromUsedPercent(extraPercent) !== "CAN_USE"
+  ) {
+    return { ...row, status: "LOW_QUOTA", limit: "extra", details };
   }
+  return { ...row, details };
+}
 
-  windows.sort(compareMostConstraining);
-
-  const limitingUsed = windows.length > 0 ? windows[0]!.usedPercent : null;
-  const status = deriveStatusFromResult(result as unknown as QuotaResult<unknown>, limitingUsed);
-
-  if (status === "LOGIN_REQUIRED") {
-    return {
-      status,
-      limit: "-",
-      details: result.reason ? `login required (${result.reason})` : "login required"
-    };
-  }
-  if (status === "FETCH_FAILED") {
-    return {
-      status,
-      limit: "-",
-      details: result.reason ? `fetch failed (${result.reason})` : "fetch failed"
-    };
+/**
+ * Codex rows: the main limit (with the credit balance, if any), then one row per
+ * additional limit such as `codex/code-review`.
+ */
+function buildCodexRows(
+  result: QuotaResult<RateLimitSnapshot>,
+  now: Date,
+  agentName: string,
+  pace: boolean
+): HumanRow[] {
+  const windows = result.data ? rateLimitSnapshotToWindows(result.data, now) : [];
+  const generic = result as unknown as QuotaResult<unknown>;
+  const mainWindows = windows.filter((w) => w.scope === null);
+  const main = { agent: agentName, ...buildWindowedRow(generic, mainWindows, now, pace) };
+  const credits = result.data ? formatCodexCredits(parseCodexCredits(result.data.credits)) : null;
+  if (credits && result.status === "ok") main.details = `${main.details}, ${credits}`;
+
+  const rows: HumanRow[] = [main];
+  if (result.status !== "ok") return rows;
+  const scopes = new Set(windows.flatMap((w) => (w.scope ? [w.scope] : [])));
+  for (const scope of scopes) {
+    const scoped = windows.filter((w) => w.scope === scope).map((w) => ({ ...w, scope: null }));
+    rows.push({
+      agent: `${agentName}/${scope.replace(/ /g, "-")}`,
+      ...buildWindowedRow(generic, scoped, now, pace)
+    });
   }
-
-  const limit: HumanLimit = windows.length > 0 ? windows[0]!.label : "-";
-  const details = windows.length > 0 ? formatWindowDetails(windows, now) : "no data";
-  return { status, limit, details };
+  return rows;
 }
 
-function buildCopilotRow(
-  result: QuotaResult<CopilotUsage>,
-  now: Date
-): { status: HumanStatus; limit: HumanLimit; details: string } {
-  const data = result.data;
-  const usedPercent = data ? clampPercent(Math.round(100 - data.percentRemaining)) : null;
-  const status = deriveStatusFromResult(result as unknown as QuotaResult<unknown>, usedPercent);
+/** Short LIMIT column labels for Copilot quota categories. */
+const COPILOT_LIMIT_LABELS: Record<string, string> = {
+  premium_interactions: "premium",
+  chat: "chat",
+  completions: "completions"
+};
 
-  if (status === "LOGIN_REQUIRED") {
-    return {
-      status,
-      limit: "-",
-      details: result.reason ? `login required (${result.reason})` : "login required"
-    };
-  }
-  if (status === "FETCH_FAILED") {
-    return {
-      status,
-      limit: "-",
-      details: result.reason ? `fetch failed (${result.reason})` : "fetch failed"
-    };
+function buildCopilotRow(result: QuotaResult<CopilotUsage>, now: Date, pace: boolean): RowColumns {
+  const data = result.data;
+  const quotaWindows = data ? copilotUsageToWindows(data) : [];
+  const windows = quotaWindows.map((w, index) => ({
+    id: w.id,
+    usedPercent: clampPercent(Math.round(w.usedPercent)),
+    remaining: formatRemaining(w),
+    index
+  }));
+  // Most constraining category first
+  windows.sort((a, b) => b.usedPercent - a.usedPercent || a.index - b.index);
+  const usedPercent = windows.length > 0 ? windows[0]!.usedPercent : null;
+  if (result.status === "ok" && data && usedPercent === null) {
+    return { status: "CAN_USE", limit: "-", details: "unlimited" };
   }
+  const status = withPaceStatus(
+    deriveStatusFromResult(result as unknown as QuotaResult<unknown>, usedPercent),
+    quotaWindows,
+    result as unknown as QuotaResult<unknown>,
+    now,
+    pace
+  );
+
+  const unavailable = unavailableDetails(status, result as unknown as QuotaResult<unknown>);
+  if (unavailable !== null) return { status, limit: "-", details: unavailable };
 
   if (!data) return { status: "FETCH_FAILED", limit: "-", details: "no data" };
+  const resetIn = `(reset in ${formatResetIn(data.resetAt, now)})`;
+  const remaining = windows[0]?.remaining;
+  const withRemaining = {
+    ...(remaining !== undefined ? { remaining } : {}),
+    ...forecastColumn(quotaWindows, result as unknown as QuotaResult<unknown>, now)
+  };
+  if (windows.length <= 1) {
+    return { status, limit: "-", ...withRemaining, details: `${usedPercent}% used ${resetIn}` };
+  }
+  const label = (id: string) => COPILOT_LIMIT_LABELS[id] ?? id;
   return {
     status,
-    limit: "-",
-    details: `${usedPercent}% used (reset in ${formatResetIn(data.resetAt, now)})`
+    limit: label(windows[0]!.id),
+    ...withRemaining,
+    details: `${windows.map((w) => `${label(w.id)}: ${w.usedPercent}% used`).join(", ")} ${resetIn}`
   };
 }
 
-function classifyGeminiModelId(modelId: string): { agentSuffix: "pro" | "flash" | null; limit: HumanLimit } {
-  if (modelId.includes("pro")) return { agentSuffix: "pro", limit: "pro" };
-  if (modelId.includes("flash")) return { agentSuffix: "flash", limit: "flash" };
-  return { agentSuffix: null, limit: "-" };
+/**
+ * One row per `retrieveUserQuota` bucket, in API order, named after the bucket's key.
+ */
+function buildGeminiBucketRows(
+  result: QuotaResult<GeminiUsage>,
+  data: GeminiUsage,
+  now: Date,
+  agentName: string,
+  pace: boolean
+): HumanRow[] {
+  const rows: HumanRow[] = [];
+  for (const window of geminiUsageToWindows(data)) {
+    const usage = data[window.id];
+    if (!usage) continue;
+    const usedPercent = clampPercent(Math.round(window.usedPercent));
+    const remaining =
+      usage.remainingAmount !== undefined
+        ? `, ${usage.remainingAmount} ${(usage.tokenType ?? "units").toLowerCase()} left`
+        : "";
+    const remainingAmount = formatRemaining(window);
+    rows.push({
+      agent: `${agentName}/${window.id}`,
+      status: withPaceStatus(
+        deriveStatusFromUsedPercent(usedPercent),
+        [window],
+        result as unknown as QuotaResult<unknown>,
+        now,
+        pace
+      ),
+      limit: window.scope ?? "-",
+      ...(remainingAmount !== undefined ? { remaining: remainingAmount } : {}),
+      ...forecastColumn([window], result as unknown as QuotaResult<unknown>, now),
+      details: `${usedPercent}% used${remaining} (reset in ${formatResetIn(usage.resetAt, now)})`
+    });
+  }
+  return rows;
 }
 
 function buildGeminiRows(
   result: QuotaResult<GeminiUsage>,
-  now: Date
+  now: Date,
+  agentName: string = "gemini",
+  perBucket: boolean = false,
+  pace: boolean = false
 ): HumanRow[] {
   const data = result.data;
 
   if (result.status !== "ok") {
     const status = deriveStatusFromResult(result as unknown as QuotaResult<unknown>, null);
-    const details =
-      status === "LOGIN_REQUIRED"
-        ? result.reason
-          ? `login required (${result.reason})`
-          : "login required"
-        : result.reason
-          ? `fetch failed (${result.reason})`
-          : "fetch failed";
-    return [{ agent: "gemini", status, limit: "-", details }];
+    const details = unavailableDetails(status, result as unknown as QuotaResult<unknown>) ?? "";
+    return [{ agent: agentName, status, limit: "-", details }];
+  }
+
+  if (perBucket && data) {
+    const rows = buildGeminiBucketRows(result, data, now, agentName, pace);
+    if (rows.length > 0) return rows;
+    return [{ agent: agentName, status: "FETCH_FAILED", limit: "-", details: "no data" }];
   }
 
   const rows: HumanRow[] = [];
   const seenSuffix = new Set<string>();
 
-  for (const [modelId, usage] of Object.entries(data ?? {})) {
-    if (!usage) continue;
-    const { agentSuffix, limit } = classifyGeminiModelId(modelId);
-    if (!agentSuffix) continue;
-    if (seenSuffix.has(agentSuffix)) continue;
-    seenSuffix.add(agentSuffix);
-
-    const usedPercent = clampPercent(Math.round(usage.usage));
-    const status = deriveStatusFromUsedPercent(usedPercent);
+  for (const window of data ? geminiUsageToWindows(data) : []) {
+    const family = geminiModelFamily(window.id);
+    if (!family || !window.resetAt) continue;
+    if (seenSuffix.has(family)) continue;
+    seenSuffix.add(family);
+
+    const usedPercent = clampPercent(Math.round(window.usedPercent));
+    const status = withPaceStatus(
+      deriveStatusFromUsedPercent(usedPercent),
+      [window],
+      result as unknown as QuotaResult<unknown>,
+      now,
+      pace
+    );
+    const remaining = formatRemaining(window);
 
     rows.push({
-      agent: `gemini/${agentSuffix}`,
+      agent: `${agentName}/${family}`,
       status,
-      limit,
-      details: `${usedPercent}% used (reset in ${formatResetIn(usage.resetAt, now)})`
+      limit: family,
+      ...(remaining !== undefined ? { remaining } : {}),
+      ...forecastColumn([window], result as unknown as QuotaResult<unknown>, now),
+      details: `${usedPercent}% used (reset in ${formatResetIn(window.resetAt, now)})`
     });
   }
 
   if (rows.length === 0) {
-    return [{ agent: "gemini", status: "FETCH_FAILED", limit: "-", details: "no data" }];
+    return [{ agent: agentName, status: "FETCH_FAILED", limit: "-", details: "no data" }];
   }
 
   // Stable output ordering: pro then flash (regardless of used%)
@@ -286,45 +479,166 @@ function buildGeminiRows(
   return rows;
 }
 
+function buildGenericRow(
+  agent: string,
+  result: QuotaResult<unknown>,
+  now: Date,
+  pace: boolean
+): HumanRow {
+  if (result.windows.length > 0) {
+    return { agent, ...buildWindowedRow(result, result.windows, now, pace) };
+  }
+  const provider = getProvider(splitAgentKey(agent).agent);
+  const percents =
+    result.status === "ok" && result.data !== null && provider?.usedPercents
+      ? provider.usedPercents(result.data)
+      : [];
+  const usedPercent = percents.length > 0 ? clampPercent(Math.max(...percents)) : null;
+  const status =
+    result.status === "ok" && usedPercent === null
+      ? "CAN_USE"
+      : deriveStatusFromResult(result, usedPercent);
+
+  const unavailable = unavailableDetails(status, result);
+  if (unavailable !== null) return { agent, status, limit: "-", details: unavailable };
+  return { agent, status, limit: "-", details: result.display };
+}
+
+function getAgentResult(allResults: AllRateLimits, agent: string): QuotaResult<unknown> | null {
+  if (agent === "summary") return null;
+  const result = allResults[agent];
+  return result && "display" in result ? result : null;
+}
+
+/**
+ * Builds human-readable table rows for the given result keys (agent ids or
+ * `<agent>:<account>` keys), in order.
+ *
+ * Gemini is shown as one row per model family (pro, flash) unless `geminiBuckets` is set,
+ * in which case every quota bucket gets its own row. With `showAccount`, every row carries the
+ * result's signed-in account for the ACCOUNT column. With `showRemaining`, every row carries
+ * the absolute amount left in its limiting window for the REMAINING column ("-" when the API
+ * only reports percentages). With `showForecast`, every row carries the burn-rate forecast of
+ * its windows for the FORECAST column ("-" without one; see `fetchAllRateLimits({ forecast })`).
+ * With `pace`, statuses are pace-aware: a row whose windows are used well ahead of the elapsed
+ * share of their period is LOW_QUOTA (see `deriveStatusFromUsedPercent`).
+ * The DETAILS of a stale result (the last successful one, served
+ * after a transient failure) start with a marker such as `STALE 12m (timeout)`.
+ */
 export function buildHumanRows(
   allResults: AllRateLimits,
-  options: { agents: SupportedAgent[]; now?: Date }
+  options: {
+    agents: AgentId[];
+    now?: Date;
+    geminiBuckets?: boolean;
+    showAccount?: boolean;
+    showRemaining?: boolean;
+    showForecast?: boolean;
+    pace?: boolean;
+  }
 ): HumanRow[] {
   const now = options.now ?? new Date();
   const rows: HumanRow[] = [];
 
-  for (const agent of options.agents) {
-    if (agent === "claude") {
-      const row = buildClaudeRow(allResults.claude, now);
-      rows.push({ agent: "claude", ...row });
-      continue;
+  for (const key of options.agents) {
+    const result = getAgentResult(allResults, key);
+    if (!result) continue;
+    const plan = result.plan;
+    const account = options.showAccount ? formatAccountIdentity(result.account) : undefined;
+    const staleMarker = formatStaleMarker(result);
+    const agentRows = buildAgentRows(
+      key,
+      result,
+      now,
+      options.geminiBuckets ?? false,
+      options.pace ?? false
+    );
+    for (const agentRow of agentRows) {
+      const { remaining, forecast, ...fetched } = agentRow;
+      // Rows built from `display` (custom providers without windows) already carry the marker
+      const row =
+        staleMarker && !fetched.details.startsWith(staleMarker)
+          ? { ...fetched, details: `${staleMarker}: ${fetched.details}` }
+          : fetched;
+      const withPlan = plan && row.plan === undefined ? { ...row, plan } : row;
+      const withAccount = account !== undefined ? { ...withPlan, account } : withPlan;
+      const withRemaining = options.showRemaining
+        ? { ...withAccount, remaining: remaining ?? "-" }
+        : withAccount;
+      rows.push(
+        options.showForecast ? { ...withRemaining, forecast: forecast ?? "-" } : withRemaining
+      );
     }
+  }
 
-    if (agent === "codex") {
-      const row = buildCodexRow(allResults.codex, now);
-      rows.push({ agent: "codex", ...row });
-      continue;
-    }
+  return rows;
+}
 
-    if (agent === "gemini") {
-      rows.push(...buildGeminiRows(allResults.gemini, now));
-      continue;
-    }
+/**
+ * Rows for one result key (agent id or `<agent>:<account>`).
+ */
+function buildAgentRows(
+  key: string,
+  result: QuotaResult<unknown>,
+  now: Date,
+  geminiBuckets: boolean,
+  pace: boolean
+): HumanRow[] {
+  const { agent } = splitAgentKey(key);
 
-    if (agent === "copilot") {
-      const row = buildCopilotRow(allResults.copilot, now);
-      rows.push({ agent: "copilot", ...row });
-      continue;
-    }
+  if (agent === "claude") {
+    return [{ agent: key, ...buildClaudeRow(result as QuotaResult<ClaudeUsageData>, now, pace) }];
+  }
+  if (agent === "codex") {
+    return buildCodexRows(result as QuotaResult<RateLimitSnapshot>, now, key, pace);
+  }
+  if (agent === "gemini") {
+    return buildGeminiRows(result as QuotaResult<GeminiUsage>, now, key, geminiBuckets, pace);
+  }
+  if (agent === "copilot") {
+    return [{ agent: key, ...buildCopilotRow(result as QuotaResult<CopilotUsage>, now, pace) }];
   }
 
-  return rows;
+  const provider = getProvider(agent);
+  const custom = provider?.buildHumanRows?.(result, now, key);
+  return custom ?? [buildGenericRow(key, result, now, pace)];
 }
 
 export function formatHumanTable(rows: HumanRow[]): string {
-  const headers = ["AGENT", "STATUS", "LIMIT", "DETAILS"] as const;
-  const cells = rows.map((r) => [r.agent, r.status, r.limit, r.details] as const);
+  const showAccount = rows.some((r) => r.account !== undefined);
+  const showRemaining = rows.some((r) => r.remaining !== undefined);
+  const showForecast = rows.some((r) => r.forecast !== undefined);
+  const accountHeader = showAccount ? ["ACCOUNT"] : [];
+  const remainingHeader = showRemaining ? ["REMAINING"] : [];
+  const forecastHeader = showForecast ? ["FORECAST"] : [];
+  const headers = [
+    "AGENT",
+    "STATUS",
+    "PLAN",
+    ...accountHeader,
+    "LIMIT",
+    ...remainingHeader,
+    ...forecastHeader,
+    "DETAILS"
+  ];
+  const cells = rows.map((r) => [
+    r.agent,
+    r.status,
+    r.plan ?? "-",
+    ...(showAccount ? [r.account ?? "-"] : []),
+    r.limit,
+    ...(showRemaining ? [r.remaining ?? "-"] : []),
+    ...(showForecast ? [r.forecast ?? "-"] : []),
+    r.details
+  ]);
+  return formatTextTable(headers, cells);
+}
 
+/**
+ * Formats a plain-text table: a header line, a dashed rule, and one line per row with the
+ * columns separated by two spaces. The last column is not padded.
+ */
+export function formatTextTable(headers: string[], cells: string[][]): string {
   const widths = headers.map((h, i) => {
     let max = h.length;
     for (const row of cells) max = Math.max(max, String(row[i]).length);
@@ -337,16 +651,9 @@ export function formatHumanTable(rows: HumanRow[]): string {
   lines.push(headers.map((h, i) => pad(h, widths[i]!)).join("  "));
   lines.push(widths.map((w) => "-".repeat(w)).join("  "));
 
-  for (const r of rows) {
-    const line =
-      pad(r.agent, widths[0]!) +
-      "  " +
-      pad(r.status, widths[1]!) +
-      "  " +
-      pad(r.limit, widths[2]!) +
-      "  " +
-      r.details;
-    lines.push(line);
+  for (const row of cells) {
+    const line = row.map((value, i) => (i < row.length - 1 ? pad(value, widths[i]!) : value));
+    lines.push(line.join("  "));
   }
 
   return lines.join("\n");
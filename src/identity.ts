@@ -0,0 +1,87 @@
+/**
+ * Helpers for working with the `AccountIdentity` of a quota result.
+ */
+
+import type { AccountIdentity } from "./types.js";
+
+/**
+ * Decodes the claims of a JWT without verifying its signature, returning null when the
+ * token is not a decodable JWT.
+ */
+export function decodeJwtClaims(token: unknown): Record<string, unknown> | null {
+  if (typeof token !== "string") return null;
+  const payload = token.split(".")[1];
+  if (!payload) return null;
+  try {
+    const claims = JSON.parse(Buffer.from(payload, "base64url").toString("utf8")) as unknown;
+    return claims && typeof claims === "object" && !Array.isArray(claims)
+      ? (claims as Record<string, unknown>)
+      : null;
+  } catch {
+    return null;
+  }
+}
+
+function nonEmptyString(value: unknown): string | null {
+  return typeof value === "string" && value.trim().length > 0 ? value.trim() : null;
+}
+
+/**
+ * Builds an `AccountIdentity` from loosely typed fields, returning null when none of them
+ * is a non-empty string.
+ */
+export function toAccountIdentity(fields: {
+  email?: unknown;
+  login?: unknown;
+  organization?: unknown;
+  accountId?: unknown;
+}): AccountIdentity | null {
+  const identity: AccountIdentity = {
+    email: nonEmptyString(fields.email),
+    login: nonEmptyString(fields.login),
+    organization: nonEmptyString(fields.organization),
+    accountId: nonEmptyString(fields.accountId)
+  };
+  return Object.values(identity).some((v) => v !== null) ? identity : null;
+}
+
+function maskName(value: string): string {
+  return value.length <= 2 ? "***" : `${value[0]}***`;
+}
+
+/**
+ * Redacts an account identity for display in shared logs: emails keep their first letter
+ * and domain (`j***@example.com`), logins and organizations their first letter, and
+ * account ids their last four characters.
+ */
+export function redactAccountIdentity(identity: AccountIdentity): AccountIdentity {
+  const email = identity.email;
+  const at = email ? email.lastIndexOf("@") : -1;
+  return {
+    email:
+      email === null
+        ? null
+        : at > 0
+          ? `${maskName(email.slice(0, at))}@${email.slice(at + 1)}`
+          : maskName(email),
+    login: identity.login === null ? null : maskName(identity.login),
+    organization: identity.organization === null ? null : maskName(identity.organization),
+    accountId:
+      identity.accountId === null
+        ? null
+        : identity.accountId.length <= 4
+          ? "***"
+          : `***${identity.accountId.slice(-4)}`
+  };
+}
+
+/**
+ * Formats an account identity for the human-readable table, e.g. `jane@example.com (Acme)`.
+ * Returns "-" when the identity is unknown.
+ */
+export function formatAccountIdentity(identity: AccountIdentity | null | undefined): string {
+  if (!identity) return "-";
+  const name = identity.email ?? identity.login ?? identity.accountId;
+  if (!name) return identity.organization ?? "-";
+  return identity.organization ? `${name} (${identity.organization})` : name;
+}
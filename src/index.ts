@@ -4,21 +4,21 @@
  * Quota / rate-limit fetching SDK for Claude, Gemini, Copilot, and Codex.
  */
 
-import { fetchClaudeRateLimits } from "./claude.js";
-import { fetchGeminiRateLimits } from "./gemini.js";
-import { fetchCopilotRateLimits, getCopilotToken } from "./copilot.js";
-import { fetchCodexRateLimits, rateLimitSnapshotToStatus } from "./codex.js";
-import { formatResetIn } from "./utils.js";
+import { getProvider, listProviderIds, splitAgentKey } from "./providers.js";
+import type { QuotaProvider, QuotaProviderContext } from "./providers.js";
 import { isQuotaFetchError } from "./errors.js";
+import { redactAccountIdentity } from "./identity.js";
+import { fetchWithCache, resolveCachePolicy } from "./result-cache.js";
+import type { QuotaCacheOptions } from "./result-cache.js";
+import { recordQuotaHistory } from "./history.js";
+import type { HistoryOptions } from "./history.js";
+import { forecastQuotaResults } from "./forecast.js";
+import type { ForecastOptions } from "./forecast.js";
+import { withWindowPace } from "./windows.js";
 import type {
   AllRateLimits,
-  ClaudeUsageData,
-  GeminiUsage,
-  CopilotUsage,
-  RateLimitSnapshot,
   QuotaResult,
   AgentStatus,
-  GlobalSummary,
   ErrorReason
 } from "./types.js";
 
@@ -36,18 +36,60 @@ export const SUPPORTED_AGENTS = ["claude", "gemini", "copilot", "codex"] as cons
  */
 export type SupportedAgent = (typeof SUPPORTED_AGENTS)[number];
 
-const AGENT_TO_SDK_KEY: Record<SupportedAgent, keyof Omit<AllRateLimits, "summary">> = {
-  claude: "claude",
-  gemini: "gemini",
-  copilot: "copilot",
-  codex: "codex"
+/**
+ * Identifier of a built-in agent or of a provider added with `registerProvider()`.
+ */
+export type AgentId = SupportedAgent | (string & {});
+
+/**
+ * Maps an agent name to its corresponding key in AllRateLimits.
+ */
+export function agentToSdkKey(agent: AgentId): string {
+  return agent;
+}
+
+/**
+ * Returns the ids of every agent that can currently be fetched: the built-in agents
+ * followed by any registered providers.
+ */
+export function listAgents(): AgentId[] {
+  return listProviderIds();
+}
+
+/**
+ * A named account of an agent, fetched with its own credential location.
+ *
+ * Results for an account are keyed `<agent>:<name>` (e.g., `claude:work`).
+ */
+export type QuotaAccount = {
+  /** Agent the account belongs to */
+  agent: AgentId;
+  /** Account name, unique per agent */
+  name: string;
+  /** Config directory holding this account's credentials (default: the agent's usual location) */
+  configDir?: string;
+  /** Service host for this account, for agents that support one (Copilot: GitHub host) */
+  host?: string;
 };
 
 /**
- * Maps a SupportedAgent name to its corresponding key in AllRateLimits.
+ * Expands agent ids into the result keys that will be fetched.
+ *
+ * An agent with declared accounts expands to one `<agent>:<name>` key per account
+ * (replacing its default credential lookup); other agents map to their own id.
+ * Keys that already name an account are kept as-is.
  */
-export function agentToSdkKey(agent: SupportedAgent): keyof Omit<AllRateLimits, "summary"> {
-  return AGENT_TO_SDK_KEY[agent];
+export function expandAgentKeys(agents: AgentId[], accounts: QuotaAccount[] = []): string[] {
+  const keys: string[] = [];
+  for (const agent of agents) {
+    const declared = agent.includes(":") ? [] : accounts.filter((a) => a.agent === agent);
+    if (declared.length === 0) {
+      keys.push(agent);
+      continue;
+    }
+    keys.push(...declared.map((a) => `${a.agent}:${a.name}`));
+  }
+  return [...new Set(keys)];
 }
 
 // Shared types
@@ -55,26 +97,106 @@ export type * from "./types.js";
 
 // Utilities
 export { formatResetIn } from "./utils.js";
+export {
+  mostConstrainingWindow,
+  formatWindowsDisplay,
+  forecastWindow,
+  formatWindowsForecast,
+  windowPace
+} from "./windows.js";
+export { redactAccountIdentity, formatAccountIdentity } from "./identity.js";
 
 // MCP
 export { runMcpServer } from "./mcp.js";
+export type { McpServerOptions } from "./mcp.js";
+
+// Provider registry
+export {
+  registerProvider,
+  unregisterProvider,
+  getProvider,
+  loadProviderModules,
+  splitAgentKey
+} from "./providers.js";
+export type { QuotaProvider, QuotaProviderContext } from "./providers.js";
+export { deriveStatusFromUsedPercent, PACE_LOW_QUOTA_MARGIN_PERCENT } from "./human-output.js";
+export type { HumanRow, HumanStatus, HumanLimit } from "./human-output.js";
+export { QuotaFetchError, isQuotaFetchError } from "./errors.js";
+
+// Result cache
+export {
+  DEFAULT_CACHE_MAX_AGE_SECONDS,
+  DEFAULT_MAX_STALE_SECONDS,
+  formatStaleMarker
+} from "./result-cache.js";
+export type { QuotaCacheOptions } from "./result-cache.js";
+
+// Quota history
+export {
+  recordQuotaHistory,
+  readQuotaHistory,
+  compactQuotaHistory,
+  historyRecordsFromResults,
+  parseHistorySince,
+  formatHistoryTable,
+  formatHistoryCsv
+} from "./history.js";
+export type { HistoryOptions, HistoryRecord } from "./history.js";
+export { forecastQuotaResults, DEFAULT_FORECAST_LOOKBACK_MINUTES } from "./forecast.js";
+export type { ForecastOptions } from "./forecast.js";
+
+// Credential file helpers
+export { writeFileAtomic, withFileLock, updateJsonFile } from "./file-store.js";
+export type { FileLockOptions, UpdateJsonFileOptions } from "./file-store.js";
 
 // Individual fetchers & helpers
-export { fetchClaudeRateLimits } from "./claude.js";
-export { fetchGeminiRateLimits } from "./gemini.js";
+export {
+  fetchClaudeRateLimits,
+  claudeUsageToWindows,
+  claudePlan,
+  describeClaudeBucket,
+  claudeExtraUsagePercent,
+  formatClaudeExtraUsage
+} from "./claude.js";
+export {
+  fetchGeminiRateLimits,
+  geminiUsageToWindows,
+  findGeminiCliOauthClientInfo,
+  resolveGeminiProject
+} from "./gemini.js";
+export type { GeminiOauthClientInfo } from "./gemini.js";
 export {
   fetchCopilotRateLimits,
   parseCopilotUserInfo,
   parseCopilotQuotaHeader,
-  getCopilotToken
+  getCopilotToken,
+  discoverCopilotToken,
+  getCopilotConfigDirs,
+  parseCopilotAppsJson,
+  copilotUsageToWindows,
+  copilotPlan,
+  gitHubApiBaseUrl,
+  parseGhHostsYaml,
+  resolveGitHubHost
+} from "./copilot.js";
+export type {
+  CopilotToken,
+  FetchCopilotRateLimitsOptions,
+  GetCopilotTokenOptions
 } from "./copilot.js";
-export type { FetchCopilotRateLimitsOptions } from "./copilot.js";
 export {
   fetchCodexRateLimits,
-  rateLimitSnapshotToStatus
+  rateLimitSnapshotToStatus,
+  rateLimitSnapshotToWindows,
+  codexKeyringAccount,
+  codexLimitLabel,
+  parseCodexCredits,
+  formatCodexCredits,
+  CODEX_KEYRING_SERVICE
 } from "./codex.js";
 export type {
   CodexStatus,
+  CodexSecretLookup,
   UsageWindow,
   UsageWindowKey,
   FetchCodexRateLimitsOptions
@@ -89,7 +211,10 @@ const DEFAULT_SKIPPED_RESULT: QuotaResult<null> = {
   data: null,
   reason: null,
   error: null,
-  display: "skipped"
+  display: "skipped",
+  windows: [],
+  plan: null,
+  account: null
 };
 
 function classifyError(e: unknown): { reason: ErrorReason; message: string } {
@@ -117,169 +242,213 @@ function classifyError(e: unknown): { reason: ErrorReason; message: string } {
 }
 
 function statusForReason(reason: ErrorReason): AgentStatus {
-  if (reason === "no_credentials" || reason === "token_expired") return "no-data";
+  if (reason === "no_credentials" || reason === "token_expired" || reason === "not_applicable") {
+    return "no-data";
+  }
   return "error";
 }
 
 function displayForFailure(status: AgentStatus, reason: ErrorReason, message: string | null): string {
+  if (reason === "not_applicable") return `not applicable (${message})`;
   if (status === "no-data") return `no data (${reason})`;
   return message ? `error (${reason}): ${message}` : `error (${reason})`;
 }
 
+function failureResult(reason: ErrorReason, message: string, rawError?: unknown): QuotaResult<unknown> {
+  const status = statusForReason(reason);
+  return {
+    status,
+    data: null,
+    reason,
+    error: status === "error" ? message : null,
+    rawError,
+    display: displayForFailure(
+      status,
+      reason,
+      status === "error" || reason === "not_applicable" ? message : null
+    ),
+    windows: [],
+    plan: null,
+    account: null
+  };
+}
+
+async function runProvider(
+  provider: QuotaProvider<unknown, unknown>,
+  context: QuotaProviderContext
+): Promise<QuotaResult<unknown>> {
+  try {
+    let credentials: unknown;
+    if (provider.discoverCredentials) {
+      credentials = await provider.discoverCredentials(context);
+      if (credentials === null || credentials === undefined) {
+        return { status: "no-data", data: null, reason: "no_credentials", error: null, display: "no data (no_credentials)", windows: [], plan: null, account: null };
+      }
+    }
+    const data = await provider.fetch(context, credentials);
+    if (data === null || data === undefined) {
+      return { status: "no-data", data: null, reason: "unknown", error: null, display: "no data (unknown)", windows: [], plan: null, account: null };
+    }
+    const now = new Date();
+    return {
+      status: "ok",
+      data,
+      reason: null,
+      error: null,
+      display: provider.formatDisplay(data, now),
+      windows: withWindowPace(provider.windows?.(data, now) ?? [], now),
+      plan: provider.plan?.(data) ?? null,
+      account: provider.account?.(data) ?? null
+    };
+  } catch (e) {
+    const { reason, message } = classifyError(e);
+    return failureResult(reason, message, e);
+  }
+}
+
+function usedPercentsForResult(
+  provider: QuotaProvider<unknown, unknown> | undefined,
+  result: QuotaResult<unknown>
+): number[] {
+  if (result.status === "ok" && result.data !== null && provider?.usedPercents) {
+    return provider.usedPercents(result.data);
+  }
+  if (result.windows.length > 0) {
+    return result.windows.map((w) => Math.round(w.usedPercent));
+  }
+  const percents: number[] = [];
+  for (const match of result.display.matchAll(/(\d+)%/g)) {
+    const percent = parseInt(match[1] ?? "0", 10);
+    if (Number.isFinite(percent)) percents.push(percent);
+  }
+  return percents;
+}
+
 /**
  * Fetches quota/usage for specified agents (or all by default) using default credential discovery.
  * 
  * @param options - Configuration options for the fetch operation
- * @param options.agents - List of specific agents to fetch. If omitted, all agents are fetched.
+ * @param options.agents - List of specific agents to fetch. If omitted, all registered agents are fetched.
  * @param options.verbose - Enable detailed logging to stderr
  * @param options.timeoutSeconds - Global timeout for network requests (default: 10s)
+ * @param options.configDirs - Per-agent config directory overrides (e.g., `{ claude: "/jobs/42/.claude" }`).
+ *   Agents without an override use the same environment variables as their CLIs
+ *   (`CLAUDE_CONFIG_DIR`, `GEMINI_CLI_HOME`, `GH_CONFIG_DIR`, `CODEX_HOME`).
+ * @param options.hosts - Per-agent service host overrides. Copilot uses it as the GitHub host
+ *   (e.g., `{ copilot: "octo.ghe.com" }`); without one, `GH_HOST` or github.com is used.
+ * @param options.readOnlyCredentials - Never modify any agent's credential files. A refreshed
+ *   Gemini token is then used for this call only; an expired Claude or Codex token, whose
+ *   refresh token rotates, is reported as `token_expired`.
+ * @param options.accounts - Named accounts to fetch instead of an agent's default credentials.
+ *   Each account's result is stored under `<agent>:<name>`. `agents` may also name a single
+ *   account (e.g., `"claude:work"`).
+ * @param options.showAccount - Report the signed-in account (`QuotaResult.account`) unredacted.
+ *   By default emails, logins and ids are masked (e.g., `j***@example.com`).
+ * @param options.cache - Serve results from the on-disk result cache shared by all processes
+ *   (`true` for the defaults, or `QuotaCacheOptions` for per-agent maximum ages, a forced
+ *   refresh or a custom directory). Successful results younger than the maximum age are
+ *   reused, and concurrent processes coalesce onto one fetch. When a fetch fails with a network
+ *   error, timeout or 5xx response, the last successful result is returned instead, marked
+ *   `stale` (up to `maxStaleSeconds` old). Disabled by default.
+ * @param options.history - Append every window of the freshly fetched results to the local
+ *   quota history (`true` for the defaults, or `HistoryOptions` for another directory and the
+ *   retention and compaction settings). Disabled by default.
+ * @param options.forecast - Add burn-rate forecasts (`burnRatePercentPerHour`,
+ *   `projectedExhaustionAt`, `willExhaustBeforeReset`) to every window that has an earlier
+ *   reading in the quota history (`true` for the defaults, or `ForecastOptions`). Readings are
+ *   recorded in the history, so the second call within the lookback period has a forecast.
  * @returns A structured object containing quota information for the requested agents
  */
 export async function fetchAllRateLimits(options?: {
-  agents?: SupportedAgent[];
+  agents?: AgentId[];
   verbose?: boolean;
   timeoutSeconds?: number;
+  configDirs?: Partial<Record<AgentId, string>>;
+  hosts?: Partial<Record<AgentId, string>>;
+  readOnlyCredentials?: boolean;
+  accounts?: QuotaAccount[];
+  showAccount?: boolean;
+  cache?: boolean | QuotaCacheOptions;
+  history?: boolean | HistoryOptions;
+  forecast?: boolean | ForecastOptions;
 }): Promise<AllRateLimits> {
-  const verbose = options?.verbose ?? false;
-  const timeout = options?.timeoutSeconds ?? 10;
-  const agentsToFetch = options?.agents ?? [...SUPPORTED_AGENTS];
-
-  const fetchers: Record<SupportedAgent, () => Promise<QuotaResult<any>>> = {
-    claude: async () => {
-      try {
-        const data = await fetchClaudeRateLimits(timeout * 1000);
-        if (!data) return { status: "no-data", data: null, reason: "unknown", error: null, display: "no data (unknown)" };
-        const buckets: string[] = [];
-        const hasTwoSevenDay = Boolean(data.seven_day && data.seven_day_sonnet);
-        if (data.five_hour) {
-          const resetIn = formatResetIn(new Date(data.five_hour.resets_at));
-          buckets.push(`5h: ${Math.round(data.five_hour.utilization)}% used (resets in ${resetIn})`);
-        }
-        if (data.seven_day) {
-          const resetIn = formatResetIn(new Date(data.seven_day.resets_at));
-          const suffix = hasTwoSevenDay ? " (all models)" : "";
-          buckets.push(`7d: ${Math.round(data.seven_day.utilization)}% used (resets in ${resetIn})${suffix}`);
-        }
-        if (data.seven_day_sonnet) {
-          const resetIn = formatResetIn(new Date(data.seven_day_sonnet.resets_at));
-          const suffix = hasTwoSevenDay ? " (sonnet only)" : "";
-          buckets.push(`7d: ${Math.round(data.seven_day_sonnet.utilization)}% used (resets in ${resetIn})${suffix}`);
-        }
-        return { status: "ok", data, reason: null, error: null, display: buckets.join(", ") || "no data" };
-      } catch (e) {
-        const { reason, message } = classifyError(e);
-        const status = statusForReason(reason);
-        return {
-          status,
-          data: null,
-          reason,
-          error: status === "error" ? message : null,
-          rawError: e,
-          display: displayForFailure(status, reason, status === "error" ? message : null)
-        };
-      }
-    },
-    gemini: async () => {
-      try {
-        const data = await fetchGeminiRateLimits(timeout * 1000);
-        if (!data) return { status: "no-data", data: null, reason: "unknown", error: null, display: "no data (unknown)" };
-        const models: string[] = [];
-        const seen = new Set<string>();
-        for (const [modelId, usage] of Object.entries(data)) {
-          if (!usage) continue;
-          // Simplify model names (e.g., "gemini-3-pro-preview" -> "pro")
-          const name = modelId.includes("pro") ? "pro" : modelId.includes("flash") ? "flash" : modelId;
-          if (seen.has(name)) continue;
-          seen.add(name);
-          models.push(`${name}: ${Math.round(usage.usage)}% used (resets in ${formatResetIn(usage.resetAt)})`);
-        }
-        return { status: "ok", data, reason: null, error: null, display: models.join(", ") || "no data" };
-      } catch (e) {
-        const { reason, message } = classifyError(e);
-        const status = statusForReason(reason);
-        return {
-          status,
-          data: null,
-          reason,
-          error: status === "error" ? message : null,
-          rawError: e,
-          display: displayForFailure(status, reason, status === "error" ? message : null)
-        };
-      }
-    },
-    copilot: async () => {
-      try {
-        const token = getCopilotToken(verbose);
-        if (!token) return { status: "no-data", data: null, reason: "no_credentials", error: null, display: "no data (no_credentials)" };
-        const data = await fetchCopilotRateLimits({ token, timeoutSeconds: timeout });
-        if (!data) return { status: "error", data: null, reason: "parse_error", error: "Copilot API response missing quota fields.", display: "error (parse_error)" };
-        const usedPercent = Math.round(100 - data.percentRemaining);
-        return { status: "ok", data, reason: null, error: null, display: `${usedPercent}% used (resets in ${formatResetIn(data.resetAt)})` };
-      } catch (e) {
-        const { reason, message } = classifyError(e);
-        const status = statusForReason(reason);
-        return {
-          status,
-          data: null,
-          reason,
-          error: status === "error" ? message : null,
-          rawError: e,
-          display: displayForFailure(status, reason, status === "error" ? message : null)
-        };
-      }
-    },
-    codex: async () => {
-      try {
-        const data = await fetchCodexRateLimits({ timeoutSeconds: timeout });
-        if (!data) return { status: "no-data", data: null, reason: "unknown", error: null, display: "no data (unknown)" };
-        const status = rateLimitSnapshotToStatus(data);
-        if (!status || status.windows.length === 0) return { status: "error", data, reason: "parse_error", error: "Codex usage windows missing.", display: "error (parse_error)" };
-        const disp = status.windows
-          .map((w) => `${w.label}: ${Math.round(100 - w.percentLeft)}% used (resets in ${formatResetIn(w.resetAt)})`)
-          .join(", ");
-        return { status: "ok", data, reason: null, error: null, display: disp };
-      } catch (e) {
-        const { reason, message } = classifyError(e);
-        const status = statusForReason(reason);
-        return {
-          status,
-          data: null,
-          reason,
-          error: status === "error" ? message : null,
-          rawError: e,
-          display: displayForFailure(status, reason, status === "error" ? message : null)
-        };
-      }
-    }
+  const baseContext: QuotaProviderContext = {
+    verbose: options?.verbose ?? false,
+    timeoutSeconds: options?.timeoutSeconds ?? 10,
+    readOnlyCredentials: options?.readOnlyCredentials ?? false
   };
+  const accounts = options?.accounts ?? [];
+  const cache = options?.cache === true ? {} : options?.cache || null;
+  const forecast = options?.forecast === true ? {} : options?.forecast || null;
+  const history =
+    typeof options?.history === "object"
+      ? options.history
+      : options?.history || forecast
+        ? (forecast?.history ?? {})
+        : null;
+  const keysToFetch = expandAgentKeys(options?.agents ?? listAgents(), accounts);
 
-  const finalResult: AllRateLimits = {
-    summary: { status: "healthy", message: "All agents are within limits." },
-    claude: DEFAULT_SKIPPED_RESULT as unknown as QuotaResult<ClaudeUsageData>,
-    gemini: DEFAULT_SKIPPED_RESULT as unknown as QuotaResult<GeminiUsage>,
-    copilot: DEFAULT_SKIPPED_RESULT as unknown as QuotaResult<CopilotUsage>,
-    codex: DEFAULT_SKIPPED_RESULT as unknown as QuotaResult<RateLimitSnapshot>
-  };
+  const finalResult = {
+    summary: { status: "healthy", message: "All agents are within limits." }
+  } as AllRateLimits;
+  for (const agent of listAgents()) {
+    finalResult[agentToSdkKey(agent)] = DEFAULT_SKIPPED_RESULT;
+  }
 
-  const results = await Promise.all(agentsToFetch.map(async (name) => {
-    const result = await fetchers[name]();
-    return { name, result };
+  const fetched = await Promise.all(keysToFetch.map(async (name) => {
+    const { agent, account: accountName } = splitAgentKey(name);
+    const provider = getProvider(agent);
+    const account =
+      accountName === null
+        ? undefined
+        : accounts.find((a) => a.agent === agent && a.name === accountName);
+    const context: QuotaProviderContext = {
+      ...baseContext,
+      configDir: account?.configDir ?? options?.configDirs?.[agent],
+      host: account?.host ?? options?.hosts?.[agent]
+    };
+    let result: QuotaResult<unknown>;
+    if (!provider) {
+      result = failureResult("unknown", `Unknown agent: ${agent}`);
+    } else if (accountName !== null && !account) {
+      result = failureResult("unknown", `Unknown account: ${name}`);
+    } else if (cache) {
+      const policy = resolveCachePolicy(
+        agent,
+        cache,
+        provider.cacheMaxAgeSeconds,
+        context.timeoutSeconds
+      );
+      const entry = { key: name, configDir: context.configDir, host: context.host };
+      result = await fetchWithCache(entry, policy, () => runProvider(provider, context));
+    } else {
+      const fresh = await runProvider(provider, context);
+      result = { ...fresh, fetchedAt: new Date(), fromCache: false };
+    }
+    // Cached results keep the account unredacted, so redaction is applied per call
+    if (result.account && !options?.showAccount) {
+      result = { ...result, account: redactAccountIdentity(result.account) };
+    }
+    return { name, provider, result };
   }));
 
+  const readings = Object.fromEntries(fetched.map(({ name, result }) => [name, result]));
+  const forecasts = forecast
+    ? forecastQuotaResults(readings, { ...forecast, history: history ?? undefined })
+    : null;
+  const results = forecasts
+    ? fetched.map((entry) => ({ ...entry, result: forecasts[entry.name] ?? entry.result }))
+    : fetched;
+
   let maxStress = 0;
   let criticalCount = 0;
 
-  for (const { name, result } of results) {
-    const sdkKey = agentToSdkKey(name);
-    // @ts-ignore
-    finalResult[sdkKey] = result;
+  for (const { name, provider, result } of results) {
+    finalResult[agentToSdkKey(name)] = result;
 
     if (result.status === "error") criticalCount++;
-    for (const match of result.display.matchAll(/(\d+)%/g)) {
-      const percent = parseInt(match[1] ?? "0", 10);
-      if (Number.isFinite(percent)) {
-        maxStress = Math.max(maxStress, percent);
-      }
+    for (const percent of usedPercentsForResult(provider, result)) {
+      maxStress = Math.max(maxStress, percent);
     }
   }
 
@@ -289,5 +458,15 @@ export async function fetchAllRateLimits(options?: {
     finalResult.summary = { status: "warning", message: `Usage is high (up to ${maxStress}%).` };
   }
 
+  if (history) {
+    const snapshot = Object.fromEntries(results.map(({ name, result }) => [name, result]));
+    try {
+      await recordQuotaHistory(snapshot, history);
+    } catch (e) {
+      // Recording is best-effort and never fails the fetch
+      if (baseContext.verbose) process.stderr.write(`[verbose] history: ${String(e)}\n`);
+    }
+  }
+
   return finalResult;
 }
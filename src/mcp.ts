@@ -4,8 +4,10 @@
  * Provides tools and resources for AI agents to stay aware of usage limits.
  */
 
-import { fetchAllRateLimits, SUPPORTED_AGENTS, SupportedAgent, agentToSdkKey } from "./index.js";
-import type { AllRateLimits } from "./types.js";
+import { fetchAllRateLimits, listAgents, agentToSdkKey, expandAgentKeys } from "./index.js";
+import { formatWindowsForecast } from "./windows.js";
+import type { ForecastOptions, HistoryOptions, QuotaAccount, QuotaCacheOptions } from "./index.js";
+import type { QuotaResult } from "./types.js";
 import { getVersion } from "./utils.js";
 
 export interface McpRequest {
@@ -25,6 +27,25 @@ export interface McpResponse {
   };
 }
 
+/**
+ * Options for the MCP server.
+ */
+export type McpServerOptions = {
+  /** Named accounts to report in addition to (or instead of) agents' default credentials */
+  accounts?: QuotaAccount[];
+  /** Never modify any agent's credential files (see `fetchAllRateLimits`) */
+  readOnlyCredentials?: boolean;
+  /** Result cache settings (see `fetchAllRateLimits`); disabled by default */
+  cache?: boolean | QuotaCacheOptions;
+  /** Quota history recording (see `fetchAllRateLimits`); disabled by default */
+  history?: boolean | HistoryOptions;
+  /**
+   * Burn-rate forecasts (see `fetchAllRateLimits`), shown in a Forecast column of the
+   * `get_quota` table; disabled by default
+   */
+  forecast?: boolean | ForecastOptions;
+};
+
 interface McpToolCallParams {
   name: string;
   arguments?: {
@@ -32,21 +53,48 @@ interface McpToolCallParams {
   };
 }
 
-async function getQuotaMarkdown(agent?: string): Promise<string> {
+function markdownRow(
+  key: string,
+  res: QuotaResult<unknown> | undefined,
+  withForecast: boolean
+): string {
+  const forecast = withForecast ? ` ${formatWindowsForecast(res?.windows ?? []) ?? "-"} |` : "";
+  return `| ${key} | ${res?.status ?? "no-data"} | ${res?.plan ?? "-"} | ${res?.display ?? "skipped"} |${forecast}`;
+}
+
+function markdownHeader(withForecast: boolean): string {
+  return withForecast
+    ? "| Agent | Status | Plan | Usage/Limit | Forecast |\n| :--- | :--- | :--- | :--- | :--- |\n"
+    : "| Agent | Status | Plan | Usage/Limit |\n| :--- | :--- | :--- | :--- |\n";
+}
+
+async function getQuotaMarkdown(agent?: string, options?: McpServerOptions): Promise<string> {
+  const accounts = options?.accounts ?? [];
+  const known = agent !== undefined && listAgents().includes(agent);
   const all = await fetchAllRateLimits({
-    agents: agent ? [agent as SupportedAgent] : undefined
+    agents: known ? [agent] : undefined,
+    readOnlyCredentials: options?.readOnlyCredentials,
+    accounts,
+    cache: options?.cache,
+    history: options?.history,
+    forecast: options?.forecast
   });
+  const withForecast = Boolean(options?.forecast);
   
   let markdown: string;
-  if (agent && (SUPPORTED_AGENTS as readonly string[]).includes(agent)) {
-    const sdkKey = agentToSdkKey(agent as SupportedAgent);
-    const res = all[sdkKey];
-    markdown = `### Quota for ${agent}\n\n| Agent | Status | Usage/Limit |\n| :--- | :--- | :--- |\n| ${agent} | ${res.status} | ${res.display} |`;
+  if (known) {
+    const rows = expandAgentKeys([agent], accounts)
+      .map((key) =>
+        markdownRow(key, all[agentToSdkKey(key)] as QuotaResult<unknown> | undefined, withForecast)
+      )
+      .join("\n");
+    markdown = `### Quota for ${agent}\n\n${markdownHeader(withForecast)}${rows}`;
   } else {
-    markdown = `### Current AI Agent Quotas\n**Status: ${all.summary.status.toUpperCase()}** - ${all.summary.message}\n\n| Agent | Status | Usage/Limit |\n| :--- | :--- | :--- |\n`;
-    markdown += (Object.entries(all) as [keyof AllRateLimits, AllRateLimits[keyof AllRateLimits]][])
-      .filter(([k]) => k !== "summary")
-      .map(([k, v]) => `| ${k} | ${(v as any).status} | ${(v as any).display} |`)
+    markdown = `### Current AI Agent Quotas\n**Status: ${all.summary.status.toUpperCase()}** - ${all.summary.message}\n\n${markdownHeader(withForecast)}`;
+    markdown += expandAgentKeys(listAgents(), accounts)
+      .map((key) =>
+        markdownRow(key, all[agentToSdkKey(key)] as QuotaResult<unknown> | undefined, withForecast)
+      )
       .join("\n");
   }
   return markdown;
@@ -55,14 +103,14 @@ async function getQuotaMarkdown(agent?: string): Promise<string> {
 /**
  * Runs the ai-quota MCP server on stdin/stdout.
  */
-export async function runMcpServer(): Promise<void> {
+export async function runMcpServer(options?: McpServerOptions): Promise<void> {
   process.stdin.on("data", async (chunk) => {
     const lines = chunk.toString().split(/\r?\n/);
     for (const line of lines) {
       if (!line.trim()) continue;
       try {
         const request = JSON.parse(line) as McpRequest;
-        const response = await handleMcpMessage(request);
+        const response = await handleMcpMessage(request, options);
         if (response) process.stdout.write(JSON.stringify(response) + "\n");
       } catch (e) {
         process.stdout.write(JSON.stringify({ jsonrpc: "2.0", id: null, error: { code: -32700, message: "Parse error" } }) + "\n");
@@ -71,7 +119,10 @@ export async function runMcpServer(): Promise<void> {
   });
 }
 
-export async function handleMcpMessage(request: McpRequest): Promise<McpResponse | null> {
+export async function handleMcpMessage(
+  request: McpRequest,
+  options?: McpServerOptions
+): Promise<McpResponse | null> {
   if (request.id === undefined || request.id === null) return null;
 
   const ok = (result: unknown): McpResponse => ({ jsonrpc: "2.0", id: request.id, result });
@@ -103,7 +154,7 @@ export async function handleMcpMessage(request: McpRequest): Promise<McpResponse
             properties: {
               agent: {
                 type: "string",
-                enum: [...SUPPORTED_AGENTS],
+                enum: listAgents(),
                 description: "Optional specific agent to check"
               }
             }
@@ -129,7 +180,7 @@ export async function handleMcpMessage(request: McpRequest): Promise<McpResponse
   if (request.method === "resources/read") {
     const uri = request.params?.uri;
     if (uri === "quota://current") {
-      const markdown = await getQuotaMarkdown();
+      const markdown = await getQuotaMarkdown(undefined, options);
       return ok({
         contents: [
           {
@@ -146,7 +197,7 @@ export async function handleMcpMessage(request: McpRequest): Promise<McpResponse
   if (request.method === "tools/call") {
     const params = request.params as McpToolCallParams;
     if (params?.name === "get_quota") {
-      const markdown = await getQuotaMarkdown(params.arguments?.agent);
+      const markdown = await getQuotaMarkdown(params.arguments?.agent, options);
       return ok({
         content: [{ type: "text", text: markdown }]
       });
@@ -0,0 +1,336 @@
+/**
+ * Quota provider registry for @metyatech/ai-quota.
+ *
+ * Every agent that `fetchAllRateLimits`, the CLI and the MCP server know about is
+ * described by a `QuotaProvider`. The four built-in agents are registered here;
+ * additional backends can be plugged in at runtime with `registerProvider()`.
+ */
+
+import path from "node:path";
+import { pathToFileURL } from "node:url";
+import {
+  claudeExtraUsagePercent,
+  claudePlan,
+  claudeUsageToWindows,
+  fetchClaudeRateLimits,
+  formatClaudeExtraUsage
+} from "./claude.js";
+import { fetchGeminiRateLimits, geminiUsageToWindows } from "./gemini.js";
+import {
+  copilotPlan,
+  copilotUsageToWindows,
+  discoverCopilotToken,
+  fetchCopilotRateLimits,
+  resolveGitHubHost
+} from "./copilot.js";
+import type { CopilotToken } from "./copilot.js";
+import {
+  fetchCodexRateLimits,
+  formatCodexCredits,
+  parseCodexCredits,
+  rateLimitSnapshotToWindows
+} from "./codex.js";
+import { formatResetIn } from "./utils.js";
+import { formatWindowsDisplay } from "./windows.js";
+import { QuotaFetchError } from "./errors.js";
+import type {
+  AccountIdentity,
+  ClaudeUsageData,
+  CopilotUsage,
+  GeminiUsage,
+  QuotaResult,
+  QuotaWindow,
+  RateLimitSnapshot
+} from "./types.js";
+import type { HumanRow } from "./human-output.js";
+
+/**
+ * Per-call settings passed to a provider's hooks.
+ */
+export type QuotaProviderContext = {
+  /** Network timeout for a single request, in seconds */
+  timeoutSeconds: number;
+  /** Whether debug information should be written to stderr */
+  verbose: boolean;
+  /**
+   * Config directory override for this agent, if the caller supplied one. Providers fall
+   * back to the environment variables and default locations of the agent's own CLI.
+   */
+  configDir?: string;
+  /**
+   * Service host override for agents that can talk to more than one (Copilot: the GitHub
+   * host, e.g. a GHE.com tenant), if the caller supplied one.
+   */
+  host?: string;
+  /**
+   * When true, providers must not modify any credential file (e.g. to persist a refreshed
+   * token). Providers whose refresh tokens rotate report an expired token as `token_expired`
+   * instead of refreshing it; others keep the refreshed token in memory only.
+   */
+  readOnlyCredentials?: boolean;
+};
+
+/**
+ * Describes how to discover credentials for, fetch, and present one agent's quota.
+ *
+ * Hooks signal failures by throwing a `QuotaFetchError`; its `reason` is carried over
+ * into the resulting `QuotaResult`.
+ */
+export interface QuotaProvider<T = unknown, C = unknown> {
+  /** Agent identifier used as the result key, CLI argument and MCP `agent` value (no ":") */
+  readonly id: string;
+  /**
+   * Resolves the credentials handed to `fetch`. Returning null reports the agent as
+   * `no-data (no_credentials)` without calling `fetch`.
+   */
+  discoverCredentials?(context: QuotaProviderContext): C | null | Promise<C | null>;
+  /** Fetches the agent's quota data. Resolving to null reports the agent as `no-data`. */
+  fetch(context: QuotaProviderContext, credentials: C | undefined): Promise<T | null>;
+  /** Builds the one-line `display` string for a successful fetch. */
+  formatDisplay(data: T, now: Date): string;
+  /** Converts the fetched data into normalized quota windows for `QuotaResult.windows`. */
+  windows?(data: T, now: Date): QuotaWindow[];
+  /** Returns the subscription plan or tier for `QuotaResult.plan`, or null when unknown. */
+  plan?(data: T): string | null;
+  /**
+   * Returns the signed-in account for `QuotaResult.account`, or null when unknown. Return
+   * it unredacted; results are redacted unless `showAccount` is requested.
+   */
+  account?(data: T): AccountIdentity | null;
+  /**
+   * How long a successful result may be served from the on-disk result cache, in seconds
+   * (default: 60). Callers can override it per agent.
+   */
+  readonly cacheMaxAgeSeconds?: number;
+  /**
+   * Returns the used percentages (0-100) that feed the global summary.
+   * When omitted, percentages are taken from `windows`, or else read from the `display` string.
+   */
+  usedPercents?(data: T): number[];
+  /**
+   * Builds the rows shown for this agent in the human-readable table. `key` is the result
+   * key (the agent id, or `<agent>:<account>`) to use as the rows' agent name.
+   * When omitted, a single row is derived from the windows and `display`.
+   */
+  buildHumanRows?(result: QuotaResult<T>, now: Date, key: string): HumanRow[];
+}
+
+const claudeProvider: QuotaProvider<ClaudeUsageData> = {
+  id: "claude",
+  cacheMaxAgeSeconds: 60,
+  fetch: (context) =>
+    fetchClaudeRateLimits(context.timeoutSeconds * 1000, {
+      configDir: context.configDir,
+      persistRefreshedCredentials: !context.readOnlyCredentials
+    }),
+  formatDisplay: (data, now) => {
+    const parts = [
+      formatWindowsDisplay(claudeUsageToWindows(data), now),
+      formatClaudeExtraUsage(data)
+    ];
+    return parts.filter(Boolean).join(", ") || "no data";
+  },
+  windows: (data) => claudeUsageToWindows(data),
+  usedPercents: (data) => {
+    const percents = claudeUsageToWindows(data).map((w) => Math.round(w.usedPercent));
+    const extra = claudeExtraUsagePercent(data);
+    return extra === null ? percents : [...percents, Math.round(extra)];
+  },
+  plan: (data) => claudePlan(data),
+  account: (data) => data.account ?? null
+};
+
+/** Code Assist tier and account of Gemini results (`GeminiUsage` is keyed by model only). */
+const geminiDetails = new WeakMap<
+  GeminiUsage,
+  { plan: string | null; account: AccountIdentity | null }
+>();
+
+const geminiProvider: QuotaProvider<GeminiUsage> = {
+  id: "gemini",
+  // Daily buckets; each fetch costs up to two sequential requests
+  cacheMaxAgeSeconds: 120,
+  async fetch(context) {
+    let plan: string | null = null;
+    let account: AccountIdentity | null = null;
+    const data = await fetchGeminiRateLimits(context.timeoutSeconds * 1000, {
+      configDir: context.configDir,
+      persistRefreshedCredentials: !context.readOnlyCredentials,
+      planSink: (tier) => {
+        plan = tier;
+      },
+      accountSink: (identity) => {
+        account = identity;
+      }
+    });
+    geminiDetails.set(data, { plan, account });
+    return data;
+  },
+  formatDisplay(data, now) {
+    // One entry per model family (e.g., "gemini-3-pro-preview" -> "pro")
+    const models: string[] = [];
+    const seen = new Set<string>();
+    for (const w of geminiUsageToWindows(data)) {
+      const name = w.scope ?? w.id;
+      if (seen.has(name)) continue;
+      seen.add(name);
+      const resetIn = w.resetAt ? ` (resets in ${formatResetIn(w.resetAt, now)})` : "";
+      models.push(`${name}: ${Math.round(w.usedPercent)}% used${resetIn}`);
+    }
+    return models.join(", ") || "no data";
+  },
+  windows: (data) => geminiUsageToWindows(data),
+  plan: (data) => geminiDetails.get(data)?.plan ?? null,
+  account: (data) => geminiDetails.get(data)?.account ?? null
+};
+
+const copilotProvider: QuotaProvider<CopilotUsage, CopilotToken> = {
+  id: "copilot",
+  // Monthly allowances move slowly
+  cacheMaxAgeSeconds: 300,
+  discoverCredentials: (context) =>
+    discoverCopilotToken(context.verbose, { configDir: context.configDir, host: context.host }),
+  async fetch(context, credentials) {
+    const data = await fetchCopilotRateLimits({
+      token: credentials?.token ?? "",
+      timeoutSeconds: context.timeoutSeconds,
+      host: resolveGitHubHost(context.host)
+    });
+    if (!data) {
+      throw new QuotaFetchError("parse_error", "Copilot API response missing quota fields.");
+    }
+    return credentials ? { ...data, tokenSource: credentials.source } : data;
+  },
+  formatDisplay(data, now) {
+    const resetIn = `(resets in ${formatResetIn(data.resetAt, now)})`;
+    const windows = copilotUsageToWindows(data);
+    if (windows.length === 0) return "unlimited";
+    if (windows.length === 1) {
+      return `${Math.round(windows[0]!.usedPercent)}% used ${resetIn}`;
+    }
+    // Several limited categories (e.g. Copilot Free chat and completions)
+    const parts = windows.map((w) => `${w.scope}: ${Math.round(w.usedPercent)}% used`);
+    return `${parts.join(", ")} ${resetIn}`;
+  },
+  windows: (data) => copilotUsageToWindows(data),
+  plan: (data) => copilotPlan(data),
+  account: (data) => data.account ?? null
+};
+
+const codexProvider: QuotaProvider<RateLimitSnapshot> = {
+  id: "codex",
+  cacheMaxAgeSeconds: 60,
+  async fetch(context) {
+    const data = await fetchCodexRateLimits({
+      codexHome: context.configDir,
+      timeoutSeconds: context.timeoutSeconds,
+      persistRefreshedCredentials: !context.readOnlyCredentials
+    });
+    if (rateLimitSnapshotToWindows(data).length === 0) {
+      throw new QuotaFetchError("parse_error", "Codex usage windows missing.");
+    }
+    return data;
+  },
+  formatDisplay: (data, now) => {
+    const windows = rateLimitSnapshotToWindows(data, now);
+    const inScope = (scope: string | null) => windows.filter((w) => w.scope === scope);
+    const parts = [formatWindowsDisplay(inScope(null), now)];
+    const scopes = new Set(windows.flatMap((w) => (w.scope ? [w.scope] : [])));
+    for (const scope of scopes) {
+      parts.push(`${scope} ${formatWindowsDisplay(inScope(scope), now)}`);
+    }
+    const credits = formatCodexCredits(parseCodexCredits(data.credits));
+    if (credits) parts.push(credits);
+    return parts.join(", ");
+  },
+  windows: (data, now) => rateLimitSnapshotToWindows(data, now),
+  plan: (data) => data.planType ?? data.plan_type ?? null,
+  account: (data) => data.account ?? null
+};
+
+const registry = new Map<string, QuotaProvider<unknown, unknown>>([
+  [claudeProvider.id, claudeProvider],
+  [geminiProvider.id, geminiProvider],
+  [copilotProvider.id, copilotProvider],
+  [codexProvider.id, codexProvider]
+]);
+
+/**
+ * Registers a quota provider so it is included in `fetchAllRateLimits`, the CLI and the
+ * MCP server. Registering an id that already exists replaces the previous provider.
+ */
+export function registerProvider<T, C>(provider: QuotaProvider<T, C>): void {
+  if (typeof provider.id !== "string" || !provider.id.trim()) {
+    throw new TypeError("Quota provider id must be a non-empty string.");
+  }
+  // "summary" is a key of `AllRateLimits`, "history" a CLI subcommand
+  if (provider.id === "summary" || provider.id === "history") {
+    throw new TypeError(`Quota provider id "${provider.id}" is reserved ("summary", "history").`);
+  }
+  if (provider.id.includes(":")) {
+    throw new TypeError('Quota provider id must not contain ":" (reserved for account names).');
+  }
+  registry.set(provider.id, provider as QuotaProvider<unknown, unknown>);
+}
+
+/**
+ * Removes a previously registered provider. Returns true when a provider was removed.
+ */
+export function unregisterProvider(id: string): boolean {
+  return registry.delete(id);
+}
+
+/**
+ * Looks up a registered provider by id.
+ */
+export function getProvider(id: string): QuotaProvider<unknown, unknown> | undefined {
+  return registry.get(id);
+}
+
+/**
+ * Splits a result key such as `claude:work` into its agent id and account name.
+ */
+export function splitAgentKey(key: string): { agent: string; account: string | null } {
+  const sep = key.indexOf(":");
+  if (sep < 0) return { agent: key, account: null };
+  return { agent: key.slice(0, sep), account: key.slice(sep + 1) };
+}
+
+/**
+ * Returns the ids of all registered providers, built-in providers first.
+ */
+export function listProviderIds(): string[] {
+  return [...registry.keys()];
+}
+
+function isQuotaProvider(value: unknown): value is QuotaProvider<unknown, unknown> {
+  if (!value || typeof value !== "object") return false;
+  const p = value as Record<string, unknown>;
+  return typeof p.id === "string" && typeof p.fetch === "function" && typeof p.formatDisplay === "function";
+}
+
+/**
+ * Imports provider modules (file paths or package names) and registers the providers
+ * they export.
+ *
+ * A module may export a provider or an array of providers as its default export, or call
+ * `registerProvider()` itself when it is imported.
+ *
+ * @returns The ids of the providers registered from default exports
+ */
+export async function loadProviderModules(specifiers: string[]): Promise<string[]> {
+  const registered: string[] = [];
+  for (const specifier of specifiers) {
+    const looksLikePath =
+      specifier.startsWith(".") || path.isAbsolute(specifier) || /\.[cm]?js$/.test(specifier);
+    const target = looksLikePath ? pathToFileURL(path.resolve(specifier)).href : specifier;
+    const mod = (await import(target)) as { default?: unknown };
+    const exported = Array.isArray(mod.default) ? mod.default : [mod.default];
+    for (const candidate of exported) {
+      if (!isQuotaProvider(candidate)) continue;
+      registerProvider(candidate);
+      registered.push(candidate.id);
+    }
+  }
+  return registered;
+}
@@ -0,0 +1,278 @@
+/**
+ * Cross-process on-disk cache of quota results.
+ *
+ * Each result key (agent id or `<agent>:<account>`, plus its config dir and host) has its own
+ * JSON file under `<cache dir>/results`. Fetches for an expired entry hold the entry's
+ * advisory lock, so concurrent processes polling the same agent coalesce onto one request
+ * and the others read its answer.
+ */
+
+import fs from "node:fs";
+import path from "node:path";
+import { createHash } from "node:crypto";
+import { withFileLock, writeFileAtomic } from "./file-store.js";
+import { isQuotaFetchError } from "./errors.js";
+import { formatDuration, getCacheDir } from "./utils.js";
+import type { QuotaResult } from "./types.js";
+
+/**
+ * Options for the result cache of `fetchAllRateLimits`.
+ */
+export type QuotaCacheOptions = {
+  /**
+   * Maximum age of a cached result in seconds, for every agent or per agent
+   * (e.g. `{ gemini: 600 }`). Agents without a value use their provider's
+   * `cacheMaxAgeSeconds`, or 60 seconds.
+   */
+  maxAgeSeconds?: number | Partial<Record<string, number>>;
+  /**
+   * Seconds past `maxAgeSeconds` during which an expired result is still returned while a
+   * fresh one is fetched in the background for later calls (default: 0, i.e. disabled)
+   */
+  staleWhileRevalidateSeconds?: number;
+  /** Ignore cached results, but store the fresh ones (default: false) */
+  refresh?: boolean;
+  /**
+   * Maximum age in seconds of the last successful result returned, marked `stale`, when a
+   * fetch fails with a network error, timeout or 5xx response (default: 3600; 0 disables
+   * the fallback)
+   */
+  maxStaleSeconds?: number;
+  /** Directory holding the cache files (default: `results` in the ai-quota cache directory) */
+  dir?: string;
+};
+
+/** Maximum age used for agents whose provider does not declare one */
+export const DEFAULT_CACHE_MAX_AGE_SECONDS = 60;
+
+/** Maximum age of a last successful result that may stand in for a failed fetch */
+export const DEFAULT_MAX_STALE_SECONDS = 3600;
+
+/**
+ * What identifies a cache entry: the result key and the credential location it was fetched
+ * with.
+ */
+export type CacheEntryKey = {
+  key: string;
+  configDir?: string;
+  host?: string;
+};
+
+/**
+ * Resolved cache settings for one result key.
+ */
+export type CachePolicy = {
+  dir: string;
+  maxAgeMs: number;
+  staleWhileRevalidateMs: number;
+  refresh: boolean;
+  maxStaleMs: number;
+  /** How long to wait for another process fetching the same entry */
+  lockTimeoutMs: number;
+};
+
+type CacheFile = {
+  fetchedAt: string;
+  result: QuotaResult<unknown>;
+};
+
+/**
+ * Resolves the cache policy for one agent from the caller's options and the provider's
+ * default maximum age.
+ */
+export function resolveCachePolicy(
+  agent: string,
+  options: QuotaCacheOptions,
+  providerMaxAgeSeconds: number | undefined,
+  timeoutSeconds: number
+): CachePolicy {
+  const maxAge =
+    typeof options.maxAgeSeconds === "number"
+      ? options.maxAgeSeconds
+      : (options.maxAgeSeconds?.[agent] ?? providerMaxAgeSeconds ?? DEFAULT_CACHE_MAX_AGE_SECONDS);
+  return {
+    dir: options.dir ?? path.join(getCacheDir(), "results"),
+    maxAgeMs: Math.max(0, maxAge) * 1000,
+    staleWhileRevalidateMs: Math.max(0, options.staleWhileRevalidateSeconds ?? 0) * 1000,
+    refresh: options.refresh ?? false,
+    maxStaleMs: Math.max(0, options.maxStaleSeconds ?? DEFAULT_MAX_STALE_SECONDS) * 1000,
+    // A fetch may take a token refresh plus a few requests, each bounded by the timeout
+    lockTimeoutMs: timeoutSeconds * 3000
+  };
+}
+
+function entryPath(dir: string, entry: CacheEntryKey): string {
+  const hash = createHash("sha256")
+    .update(JSON.stringify([entry.key, entry.configDir ?? null, entry.host ?? null]))
+    .digest("hex")
+    .slice(0, 16);
+  const name = entry.key.replace(/[^A-Za-z0-9_-]/g, "_");
+  return path.join(dir, `${name}-${hash}.json`);
+}
+
+/** Dates (reset times) are tagged so they come back as `Date` objects. */
+function serialize(file: CacheFile): string {
+  return JSON.stringify(file, function (this: Record<string, unknown>, key, value: unknown) {
+    const raw = this[key];
+    return raw instanceof Date ? { $date: raw.toISOString() } : value;
+  });
+}
+
+function deserialize(text: string): CacheFile | null {
+  const parsed = JSON.parse(text, (_key, value: unknown) => {
+    if (value && typeof value === "object" && !Array.isArray(value)) {
+      const record = value as Record<string, unknown>;
+      const keys = Object.keys(record);
+      if (keys.length === 1 && keys[0] === "$date" && typeof record.$date === "string") {
+        return new Date(record.$date);
+      }
+    }
+    return value;
+  }) as unknown;
+  if (!parsed || typeof parsed !== "object") return null;
+  const file = parsed as Partial<CacheFile>;
+  if (typeof file.fetchedAt !== "string" || !file.result || typeof file.result !== "object") {
+    return null;
+  }
+  return file as CacheFile;
+}
+
+function readEntry(filePath: string): { fetchedAt: Date; result: QuotaResult<unknown> } | null {
+  try {
+    const file = deserialize(fs.readFileSync(filePath, "utf8"));
+    if (!file) return null;
+    const fetchedAt = new Date(file.fetchedAt);
+    if (Number.isNaN(fetchedAt.getTime())) return null;
+    return { fetchedAt, result: file.result };
+  } catch {
+    return null;
+  }
+}
+
+function writeEntry(filePath: string, fetchedAt: Date, result: QuotaResult<unknown>): void {
+  // The raw error is for the caller's inspection only and often not serializable
+  const stored: QuotaResult<unknown> = { ...result };
+  delete stored.rawError;
+  delete stored.fetchedAt;
+  delete stored.fromCache;
+  try {
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    writeFileAtomic(filePath, serialize({ fetchedAt: fetchedAt.toISOString(), result: stored }));
+  } catch {
+    // Best-effort: the result is fetched again next time.
+  }
+}
+
+function fromEntry(entry: { fetchedAt: Date; result: QuotaResult<unknown> }): QuotaResult<unknown> {
+  return { ...entry.result, fetchedAt: entry.fetchedAt, fromCache: true };
+}
+
+/**
+ * Whether a failure is likely to go away on its own, so that the last successful result is
+ * still the best answer: network errors, timeouts and 5xx responses.
+ */
+function isTransientFailure(result: QuotaResult<unknown>): boolean {
+  if (result.status !== "error") return false;
+  if (result.reason === "network_error" || result.reason === "timeout") return true;
+  const httpStatus = isQuotaFetchError(result.rawError) ? result.rawError.httpStatus : undefined;
+  return httpStatus !== undefined && httpStatus >= 500;
+}
+
+/**
+ * Replaces a transient failure with the entry's last successful result, marked `stale`, when
+ * that result is within the policy's maximum staleness.
+ */
+function withLastKnownGood(
+  filePath: string,
+  policy: CachePolicy,
+  result: QuotaResult<unknown>
+): QuotaResult<unknown> {
+  if (!isTransientFailure(result)) return result;
+  const lastGood = readEntry(filePath);
+  const ageMs = lastGood ? Date.now() - lastGood.fetchedAt.getTime() : Infinity;
+  if (!lastGood || ageMs > policy.maxStaleMs) return result;
+  const stale: QuotaResult<unknown> = {
+    ...fromEntry(lastGood),
+    stale: true,
+    staleAgeSeconds: Math.max(0, Math.round(ageMs / 1000)),
+    staleError: { reason: result.reason ?? "unknown", message: result.error }
+  };
+  return { ...stale, display: `${formatStaleMarker(stale)}: ${stale.display}` };
+}
+
+/**
+ * Formats the staleness of a result for display, e.g. `STALE 12m (timeout)`. Returns null
+ * when the result is not stale.
+ */
+export function formatStaleMarker(result: QuotaResult<unknown>): string | null {
+  if (!result.stale) return null;
+  const age = formatDuration((result.staleAgeSeconds ?? 0) * 1000);
+  return result.staleError ? `STALE ${age} (${result.staleError.reason})` : `STALE ${age}`;
+}
+
+/**
+ * Fetches and stores a fresh result while holding the entry's lock. When another process
+ * stored a fresh result while this one was waiting, that result is returned instead.
+ */
+async function fetchLocked(
+  filePath: string,
+  policy: CachePolicy,
+  fetchFresh: () => Promise<QuotaResult<unknown>>,
+  lockTimeoutMs: number
+): Promise<QuotaResult<unknown>> {
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  const startedAt = Date.now();
+  return withFileLock(
+    filePath,
+    async () => {
+      // Another process may have stored a result while this one waited for the lock; with
+      // `refresh`, only a result fetched after this call started is fresh enough (a result
+      // stored within the same millisecond may predate it)
+      const current = readEntry(filePath);
+      const storedAt = current?.fetchedAt.getTime() ?? -Infinity;
+      const coalesced = policy.refresh
+        ? storedAt > startedAt
+        : Date.now() - storedAt <= policy.maxAgeMs;
+      if (current && coalesced) return fromEntry(current);
+
+      const result = await fetchFresh();
+      const fetchedAt = new Date();
+      // Failures are not cached, so that e.g. a fresh login is picked up on the next call
+      if (result.status === "ok") writeEntry(filePath, fetchedAt, result);
+      return { ...result, fetchedAt, fromCache: false };
+    },
+    { timeoutMs: lockTimeoutMs, staleMs: Math.max(30_000, lockTimeoutMs) }
+  );
+}
+
+/**
+ * Returns the cached result for `entry` while it is younger than the policy's maximum age,
+ * and otherwise fetches a fresh one with `fetchFresh` (coalescing with other processes) and
+ * stores it when the fetch succeeded. A transient failure falls back to the last successful
+ * result (see `CachePolicy.maxStaleMs`).
+ */
+export async function fetchWithCache(
+  entry: CacheEntryKey,
+  policy: CachePolicy,
+  fetchFresh: () => Promise<QuotaResult<unknown>>
+): Promise<QuotaResult<unknown>> {
+  const filePath = entryPath(policy.dir, entry);
+  const cached = policy.refresh ? null : readEntry(filePath);
+  const age = cached ? Date.now() - cached.fetchedAt.getTime() : Infinity;
+  if (cached && age <= policy.maxAgeMs) return fromEntry(cached);
+
+  if (cached && age <= policy.maxAgeMs + policy.staleWhileRevalidateMs) {
+    // Serve the expired result now; skip the refresh when another process is already at it
+    fetchLocked(filePath, policy, fetchFresh, 0).catch(() => undefined);
+    return fromEntry(cached);
+  }
+
+  let result: QuotaResult<unknown>;
+  try {
+    result = await fetchLocked(filePath, policy, fetchFresh, policy.lockTimeoutMs);
+  } catch {
+    // The lock could not be taken (or the cache dir is not writable): fetch without the cache
+    result = { ...(await fetchFresh()), fetchedAt: new Date(), fromCache: false };
+  }
+  return withLastKnownGood(filePath, policy, result);
+}
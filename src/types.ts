@@ -30,6 +30,30 @@ export type RateLimitWindow = {
   resets_at?: number | null;
 };
 
+/**
+ * A named rate limit reported next to the main one (e.g., Codex code review).
+ */
+export type RateLimitGroup = {
+  /** Primary limit window (usually the shortest/strictest) */
+  primary?: RateLimitWindow | null;
+  /** Secondary limit window (usually longer-term) */
+  secondary?: RateLimitWindow | null;
+  /** Whether the service reports the limit as reached */
+  limitReached?: boolean | null;
+};
+
+/**
+ * Credit balance reported by the ChatGPT usage API.
+ */
+export type CodexCredits = {
+  /** Whether the account has credits to spend beyond its rate limits */
+  hasCredits: boolean;
+  /** Whether credits are unlimited */
+  unlimited: boolean;
+  /** Remaining balance, when reported */
+  balance: number | null;
+};
+
 /**
  * A collection of rate limit windows for a specific agent.
  */
@@ -38,12 +62,16 @@ export type RateLimitSnapshot = {
   primary?: RateLimitWindow | null;
   /** Secondary limit window (usually longer-term) */
   secondary?: RateLimitWindow | null;
-  /** Optional credit/balance information */
+  /** Additional named limits, keyed by name (e.g., `code_review`) */
+  additionalLimits?: Record<string, RateLimitGroup>;
+  /** Credit/balance information as returned by the API (see `parseCodexCredits`) */
   credits?: unknown;
   /** Plan type information (e.g., "pro", "free") */
   planType?: string | null;
   /** Legacy snake_case version of planType */
   plan_type?: string | null;
+  /** Signed-in account from the Codex `id_token`, when known */
+  account?: AccountIdentity | null;
 };
 
 // ---------------------------------------------------------------------------
@@ -70,6 +98,11 @@ export type ClaudeUsageData = {
   seven_day: ClaudeUsageBucket | null;
   /** Specific 7-day limit for Sonnet models */
   seven_day_sonnet: ClaudeUsageBucket | null;
+  /**
+   * Every usage bucket in the response, keyed by its name (e.g. `five_hour`, `seven_day_opus`,
+   * `seven_day_oauth_apps`), including the ones also exposed as named fields
+   */
+  buckets?: Record<string, ClaudeUsageBucket>;
   /** Information about extra usage/credits beyond the base plan */
   extra_usage: {
     is_enabled: boolean;
@@ -77,6 +110,12 @@ export type ClaudeUsageData = {
     used_credits: number;
     utilization: number;
   } | null;
+  /** Subscription type from the credentials file (e.g. `pro`, `max`), when known */
+  subscriptionType?: string | null;
+  /** Rate limit tier from the credentials file (e.g. `default_claude_max_20x`), when known */
+  rateLimitTier?: string | null;
+  /** Signed-in account from Claude Code's OAuth profile, when known */
+  account?: AccountIdentity | null;
 };
 
 // ---------------------------------------------------------------------------
@@ -93,10 +132,20 @@ export type GeminiModelUsage = {
   usage: number;
   /** Reset date */
   resetAt: Date;
+  /** Model the quota bucket applies to (the key may carry a token type suffix) */
+  modelId?: string;
+  /** What the bucket counts (e.g. "REQUESTS"), when reported */
+  tokenType?: string;
+  /** Absolute amount left in the window, when reported */
+  remainingAmount?: number;
 };
 
 /**
- * Aggregated usage data for Gemini models.
+ * Aggregated usage data for Gemini models, one entry per `retrieveUserQuota` bucket.
+ *
+ * Entries are keyed by model ID; when a model has buckets for several token types, the
+ * later ones are keyed `<modelId>/<tokenType>`. A key that is already taken gets a `#2`,
+ * `#3`, ... suffix.
  */
 export type GeminiUsage = {
   "gemini-3-pro-preview"?: GeminiModelUsage;
@@ -109,8 +158,44 @@ export type GeminiUsage = {
 // Copilot types
 // ---------------------------------------------------------------------------
 
+/**
+ * One Copilot quota category (e.g. `premium_interactions`, `chat`, `completions`).
+ */
+export type CopilotQuotaSnapshot = {
+  /** Quota category as reported by GitHub */
+  id: string;
+  /** Whether the category has no limit on the current plan */
+  unlimited: boolean;
+  /** Percentage remaining (0-100; 100 when unlimited) */
+  percentRemaining: number;
+  /** Total entitlement for the period (0 when unlimited) */
+  entitlement: number;
+  /** Amount remaining in the period, when reported */
+  remaining: number | null;
+  /** Amount used above the entitlement */
+  overageUsed: number;
+  /** Whether overage is allowed for this category */
+  overageEnabled: boolean;
+};
+
+/**
+ * Where the GitHub token used for a Copilot request was found.
+ */
+export type CopilotTokenSource = {
+  /**
+   * Kind of source: an environment variable, the GitHub CLI `hosts.yml`, the Copilot
+   * editor plugin's `apps.json`/`hosts.json`, or `gh auth token`
+   */
+  kind: "env" | "gh-config" | "copilot-config" | "gh-cli";
+  /** Environment variable name, file path, or command */
+  location: string;
+};
+
 /**
  * Usage data for GitHub Copilot.
+ *
+ * The top-level fields describe the premium request quota when GitHub reports one, or
+ * else the most constraining limited category (e.g. chat or completions on Copilot Free).
  */
 export type CopilotUsage = {
   /** Percentage of premium quota remaining (0-100) */
@@ -123,12 +208,100 @@ export type CopilotUsage = {
   overageUsed: number;
   /** Whether overage is currently allowed/enabled */
   overageEnabled: boolean;
+  /** Every quota category reported by GitHub, keyed by category id */
+  quotas: Record<string, CopilotQuotaSnapshot>;
+  /** Where the token was found, when it was discovered by this package */
+  tokenSource?: CopilotTokenSource;
+  /** `copilot_plan` from the user info (e.g. `individual`, `business`), when reported */
+  copilotPlan?: string | null;
+  /** `access_type_sku` from the user info (e.g. `plus_monthly_subscriber_quota`), when reported */
+  accessTypeSku?: string | null;
+  /** GitHub user behind the token, when reported by the user info */
+  account?: AccountIdentity | null;
   /** Source of the data (internal API body or response header) */
   source: "user" | "header";
   /** Raw response data for debugging */
   raw: unknown;
 };
 
+// ---------------------------------------------------------------------------
+// Normalized window types
+// ---------------------------------------------------------------------------
+
+/**
+ * A single quota window in a provider-agnostic shape.
+ *
+ * Every `QuotaResult` carries its windows in this form so that gating code can be
+ * written once for all agents.
+ */
+export type QuotaWindow = {
+  /** Stable identifier within the agent (e.g., "five_hour", "seven_day_sonnet", a Gemini model ID) */
+  id: string;
+  /** Short label of the window length (e.g., "5h", "7d", "24h", "monthly") */
+  label: string;
+  /** Percentage of the window's quota used (0-100) */
+  usedPercent: number;
+  /** When the window resets, or null if unknown */
+  resetAt: Date | null;
+  /** Length of the window in milliseconds, or null if unknown */
+  windowDurationMs: number | null;
+  /** What the window applies to (e.g., "all models", "sonnet only", "pro"), or null for the whole account */
+  scope: string | null;
+  /**
+   * Absolute amount left in the window (requests, or tokens for token buckets), when the API
+   * reports enough to compute it (Copilot entitlement x remaining %, Gemini `remainingAmount`)
+   */
+  remaining?: number;
+  /** Absolute size of the window's quota, when known */
+  limit?: number;
+  /** Amount used beyond the limit (e.g. Copilot premium request overage), when reported */
+  overage?: number;
+  /**
+   * Percentage of the window's duration that had elapsed when it was read (0-100); null when
+   * the duration or reset time is unknown. Set on the windows of `fetchAllRateLimits` results.
+   */
+  elapsedPercent?: number | null;
+  /**
+   * `usedPercent` relative to `elapsedPercent`: above 1 when usage is ahead of an even spread
+   * across the window, below 1 when behind it; null when `elapsedPercent` is unknown or 0
+   */
+  paceRatio?: number | null;
+  /**
+   * Growth of `usedPercent` in percentage points per hour, measured against an earlier reading
+   * of the same window (set when forecasts are requested and a reading is available)
+   */
+  burnRatePercentPerHour?: number;
+  /** When the window reaches 100% at the current burn rate; null when usage is not growing */
+  projectedExhaustionAt?: Date | null;
+  /**
+   * Whether the window reaches 100% before it resets at the current burn rate (null when the
+   * reset time is unknown)
+   */
+  willExhaustBeforeReset?: boolean | null;
+};
+
+/**
+ * An earlier reading of a quota window, used to measure its burn rate.
+ */
+export type WindowReading = {
+  /** When the reading was taken */
+  at: Date;
+  usedPercent: number;
+  resetAt: Date | null;
+};
+
+/**
+ * The forecast fields of a `QuotaWindow`.
+ */
+export type WindowForecast = Required<
+  Pick<QuotaWindow, "burnRatePercentPerHour" | "projectedExhaustionAt" | "willExhaustBeforeReset">
+>;
+
+/**
+ * The pace fields of a `QuotaWindow`.
+ */
+export type WindowPace = Required<Pick<QuotaWindow, "elapsedPercent" | "paceRatio">>;
+
 // ---------------------------------------------------------------------------
 // Aggregated types
 // ---------------------------------------------------------------------------
@@ -150,8 +323,24 @@ export type ErrorReason =
   | "timeout" 
   | "endpoint_changed"
   | "parse_error"
+  /** The agent is set up for a billing mode without quota windows (e.g. API-key billing) */
+  | "not_applicable"
   | "unknown";
 
+/**
+ * Identity of the signed-in user a quota belongs to. Fields the agent does not report are null.
+ */
+export type AccountIdentity = {
+  /** Email address of the signed-in user */
+  email: string | null;
+  /** Login / user name (e.g. the GitHub login behind a Copilot token) */
+  login: string | null;
+  /** Organization or workspace the account belongs to */
+  organization: string | null;
+  /** Provider-specific account identifier */
+  accountId: string | null;
+};
+
 /**
  * Generic result wrapper for a single agent's quota information.
  */
@@ -168,6 +357,31 @@ export type QuotaResult<T> = {
   rawError?: unknown;
   /** Human-readable display string summarizing the status */
   display: string;
+  /** Normalized quota windows (empty when the fetch did not succeed) */
+  windows: QuotaWindow[];
+  /**
+   * Subscription plan or tier the quota belongs to (e.g. `max 20x`, `pro+`, `standard`,
+   * `plus`), or null when unknown
+   */
+  plan?: string | null;
+  /**
+   * Signed-in account the quota belongs to, or null when unknown. Redacted (e.g.
+   * `j***@example.com`) unless `showAccount` was requested.
+   */
+  account?: AccountIdentity | null;
+  /** When the result was fetched from the agent's API (set by `fetchAllRateLimits`) */
+  fetchedAt?: Date;
+  /** Whether the result was served from the on-disk result cache */
+  fromCache?: boolean;
+  /**
+   * True when the fetch failed transiently (network error, timeout or 5xx response) and this
+   * is the agent's last successful result from the result cache instead
+   */
+  stale?: boolean;
+  /** Age of a stale result in seconds */
+  staleAgeSeconds?: number;
+  /** The failure that made the result stale */
+  staleError?: { reason: ErrorReason; message: string | null };
 };
 
 /**
@@ -182,6 +396,8 @@ export type GlobalSummary = {
 
 /**
  * Complete set of rate limits for all supported AI agents.
+ *
+ * Agents contributed through `registerProvider()` appear under their provider id.
  */
 export type AllRateLimits = {
   /** Overall summary of the quota health */
@@ -190,4 +406,5 @@ export type AllRateLimits = {
   gemini: QuotaResult<GeminiUsage>;
   copilot: QuotaResult<CopilotUsage>;
   codex: QuotaResult<RateLimitSnapshot>;
+  [agent: string]: QuotaResult<unknown> | GlobalSummary;
 };
@@ -5,6 +5,7 @@
 import { createRequire } from "node:module";
 import { fileURLToPath } from "node:url";
 import path from "node:path";
+import os from "node:os";
 
 /**
  * Formats a date into a human-readable "remaining time" string.
@@ -12,7 +13,14 @@ import path from "node:path";
 export function formatResetIn(resetAt: Date, now: Date = new Date()): string {
   const diffMs = resetAt.getTime() - now.getTime();
   if (diffMs <= 0) return "already reset";
-  const totalMinutes = Math.floor(diffMs / 60000);
+  return formatDuration(diffMs);
+}
+
+/**
+ * Formats a duration as days, hours and minutes (e.g. "1d 2h 5m", "0m").
+ */
+export function formatDuration(durationMs: number): string {
+  const totalMinutes = Math.floor(Math.max(0, durationMs) / 60000);
   const days = Math.floor(totalMinutes / (60 * 24));
   const remainingMinutes = totalMinutes - days * 60 * 24;
   const hours = Math.floor(remainingMinutes / 60);
@@ -41,3 +49,19 @@ export function getVersion(): string {
     return "0.0.0";
   }
 }
+
+/**
+ * Returns the directory for ai-quota's own cached data: `AI_QUOTA_CACHE_DIR`, then
+ * `$XDG_CACHE_HOME/ai-quota`, `%LOCALAPPDATA%/ai-quota/cache` on Windows, or
+ * `~/.cache/ai-quota`.
+ */
+export function getCacheDir(): string {
+  const explicit = process.env.AI_QUOTA_CACHE_DIR?.trim();
+  if (explicit) return explicit;
+  const xdg = process.env.XDG_CACHE_HOME?.trim();
+  if (xdg) return path.join(xdg, "ai-quota");
+  if (process.platform === "win32" && process.env.LOCALAPPDATA) {
+    return path.join(process.env.LOCALAPPDATA, "ai-quota", "cache");
+  }
+  return path.join(os.homedir(), ".cache", "ai-quota");
+}
@@ -0,0 +1,169 @@
+/**
+ * Helpers for working with normalized `QuotaWindow` values.
+ */
+
+import type { QuotaWindow, WindowForecast, WindowPace, WindowReading } from "./types.js";
+import { formatDuration, formatResetIn } from "./utils.js";
+
+export const HOUR_MS = 60 * 60 * 1000;
+export const DAY_MS = 24 * HOUR_MS;
+
+/**
+ * Clamps a percentage to the 0-100 range (non-finite values become 0).
+ */
+export function clampPercent(value: number): number {
+  if (!Number.isFinite(value)) return 0;
+  return Math.min(100, Math.max(0, value));
+}
+
+/**
+ * Parses an ISO 8601 timestamp, returning null when it is missing or invalid.
+ */
+export function parseResetAt(value: string | null | undefined): Date | null {
+  if (!value) return null;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * Returns the window closest to exhaustion (highest usedPercent, then earliest reset),
+ * or null when there are no windows.
+ */
+export function mostConstrainingWindow(windows: QuotaWindow[]): QuotaWindow | null {
+  let best: QuotaWindow | null = null;
+  for (const w of windows) {
+    if (!best || w.usedPercent > best.usedPercent) {
+      best = w;
+      continue;
+    }
+    if (w.usedPercent === best.usedPercent) {
+      const wReset = w.resetAt?.getTime() ?? Number.POSITIVE_INFINITY;
+      const bestReset = best.resetAt?.getTime() ?? Number.POSITIVE_INFINITY;
+      if (wReset < bestReset) best = w;
+    }
+  }
+  return best;
+}
+
+/**
+ * Measures how far through its period a window was when read, and how its usage compares
+ * with spreading the quota evenly across the period.
+ *
+ * @param window - The window, with its `usedPercent` as of `readingAt`
+ * @param readingAt - When the window was read
+ */
+export function windowPace(window: QuotaWindow, readingAt: Date): WindowPace {
+  const duration = window.windowDurationMs;
+  if (!window.resetAt || duration === null || duration <= 0) {
+    return { elapsedPercent: null, paceRatio: null };
+  }
+  const remainingMs = window.resetAt.getTime() - readingAt.getTime();
+  const elapsedPercent = clampPercent(((duration - remainingMs) / duration) * 100);
+  return {
+    elapsedPercent,
+    paceRatio: elapsedPercent > 0 ? clampPercent(window.usedPercent) / elapsedPercent : null
+  };
+}
+
+/**
+ * Returns the windows with their pace fields (`elapsedPercent`, `paceRatio`) set as of
+ * `readingAt`.
+ */
+export function withWindowPace(windows: QuotaWindow[], readingAt: Date): QuotaWindow[] {
+  return windows.map((w) => ({ ...w, ...windowPace(w, readingAt) }));
+}
+
+/**
+ * Reset times of the same window period may differ slightly between readings (e.g. Codex
+ * reports seconds until the reset), so they are compared with this tolerance.
+ */
+const RESET_TOLERANCE_MS = 5 * 60 * 1000;
+
+/**
+ * Whether two readings belong to the same period of a window (the same reset time).
+ */
+export function isSameWindowPeriod(a: Date | null, b: Date | null): boolean {
+  if (a === null || b === null) return a === b;
+  return Math.abs(a.getTime() - b.getTime()) <= RESET_TOLERANCE_MS;
+}
+
+/**
+ * Forecasts when a window runs out from its burn rate since an earlier reading of the same
+ * period. Returns null when `previous` is not an earlier reading of the window's current
+ * period. Usage that did not grow yields a burn rate of 0 and no projected exhaustion.
+ *
+ * @param window - The current reading of the window
+ * @param previous - An earlier reading of the same window
+ * @param readingAt - When the current reading was taken
+ */
+export function forecastWindow(
+  window: QuotaWindow,
+  previous: WindowReading,
+  readingAt: Date
+): WindowForecast | null {
+  const elapsedMs = readingAt.getTime() - previous.at.getTime();
+  if (elapsedMs <= 0 || !isSameWindowPeriod(window.resetAt, previous.resetAt)) return null;
+
+  const used = clampPercent(window.usedPercent);
+  const burnRate = Math.max(0, (used - clampPercent(previous.usedPercent)) / (elapsedMs / HOUR_MS));
+  let projectedExhaustionAt: Date | null = null;
+  if (used >= 100) {
+    projectedExhaustionAt = readingAt;
+  } else if (burnRate > 0) {
+    projectedExhaustionAt = new Date(readingAt.getTime() + ((100 - used) / burnRate) * HOUR_MS);
+  }
+  return {
+    burnRatePercentPerHour: burnRate,
+    projectedExhaustionAt,
+    willExhaustBeforeReset:
+      projectedExhaustionAt === null
+        ? false
+        : window.resetAt
+          ? projectedExhaustionAt.getTime() < window.resetAt.getTime()
+          : null
+  };
+}
+
+/**
+ * Summarizes the forecasts of windows for display: `100% in 1h 10m, before reset` for the
+ * window projected to run out first, `exhausted`, `lasts until reset` when every window
+ * outlasts its reset, or `idle` when usage is not growing. Returns null when no window has a
+ * forecast.
+ */
+export function formatWindowsForecast(
+  windows: QuotaWindow[],
+  now: Date = new Date()
+): string | null {
+  const forecasts = windows.filter((w) => w.burnRatePercentPerHour !== undefined);
+  if (forecasts.length === 0) return null;
+
+  const exhausting = forecasts
+    .filter((w) => w.projectedExhaustionAt && w.willExhaustBeforeReset !== false)
+    .sort((a, b) => a.projectedExhaustionAt!.getTime() - b.projectedExhaustionAt!.getTime());
+  const first = exhausting[0];
+  if (first) {
+    if (clampPercent(first.usedPercent) >= 100) return "exhausted";
+    const eta = `100% in ${formatDuration(first.projectedExhaustionAt!.getTime() - now.getTime())}`;
+    return first.willExhaustBeforeReset ? `${eta}, before reset` : eta;
+  }
+  return forecasts.some((w) => (w.burnRatePercentPerHour ?? 0) > 0) ? "lasts until reset" : "idle";
+}
+
+/**
+ * Formats windows as `label: N% used (resets in ...)`, joined by ", ".
+ *
+ * When several windows share a label, their scope is appended (e.g., " (sonnet only)")
+ * to tell them apart.
+ */
+export function formatWindowsDisplay(windows: QuotaWindow[], now: Date = new Date()): string {
+  const labelCounts = new Map<string, number>();
+  for (const w of windows) labelCounts.set(w.label, (labelCounts.get(w.label) ?? 0) + 1);
+
+  return windows
+    .map((w) => {
+      const resetIn = w.resetAt ? ` (resets in ${formatResetIn(w.resetAt, now)})` : "";
+      const suffix = (labelCounts.get(w.label) ?? 0) > 1 && w.scope ? ` (${w.scope})` : "";
+      return `${w.label}: ${Math.round(w.usedPercent)}% used${resetIn}${suffix}`;
+    })
+    .join(", ");
+}
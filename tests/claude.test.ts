@@ -1,5 +1,14 @@
 import { describe, expect, it, vi, beforeEach, afterEach } from "vitest";
-import { fetchClaudeRateLimits } from "../src/claude.js";
+import {
+  claudeExtraUsagePercent,
+  claudePlan,
+  claudeUsageToWindows,
+  describeClaudeBucket,
+  fetchClaudeRateLimits,
+  formatClaudeExtraUsage
+} from "../src/claude.js";
+import * as fileStore from "../src/file-store.js";
+import type { ClaudeUsageData } from "../src/types.js";
 import fs from "node:fs";
 import os from "node:os";
 import path from "node:path";
@@ -65,6 +74,26 @@ describe("fetchClaudeRateLimits", () => {
     });
   });
 
+  it("reads credentials from CLAUDE_CONFIG_DIR and from an explicit configDir", async () => {
+    const customDir = path.join(tmpDir, "job-claude");
+    fs.mkdirSync(customDir, { recursive: true });
+    fs.writeFileSync(
+      path.join(customDir, ".credentials.json"),
+      JSON.stringify({ claudeAiOauth: { accessToken: "sk-ant-oat01-custom", expiresAt: Date.now() - 1000 } })
+    );
+
+    process.env.CLAUDE_CONFIG_DIR = customDir;
+    try {
+      await expect(fetchClaudeRateLimits()).rejects.toMatchObject({ reason: "token_expired" });
+    } finally {
+      delete process.env.CLAUDE_CONFIG_DIR;
+    }
+    await expect(fetchClaudeRateLimits()).rejects.toMatchObject({ reason: "no_credentials" });
+    await expect(fetchClaudeRateLimits(5000, { configDir: customDir })).rejects.toMatchObject({
+      reason: "token_expired"
+    });
+  });
+
   it("throws parse_error when credentials JSON is malformed", async () => {
     fs.writeFileSync(credentialsPath, "not-json");
     await expect(fetchClaudeRateLimits()).rejects.toMatchObject({
@@ -117,6 +146,137 @@ describe("fetchClaudeRateLimits", () => {
     expect(result.extra_usage?.is_enabled).toBe(false);
   });
 
+  it("derives the extra-usage utilization from the spend when it is not reported", async () => {
+    fs.writeFileSync(
+      credentialsPath,
+      JSON.stringify({
+        claudeAiOauth: { accessToken: "sk-ant-oat01-valid", expiresAt: Date.now() + 3600_000 }
+      })
+    );
+    vi.stubGlobal(
+      "fetch",
+      vi.fn().mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        statusText: "OK",
+        json: async () => ({
+          five_hour: null,
+          extra_usage: { is_enabled: true, monthly_limit: 5000, used_credits: 1000 }
+        })
+      })
+    );
+
+    const result = await fetchClaudeRateLimits();
+    expect(result.extra_usage?.utilization).toBe(20);
+    expect(claudeExtraUsagePercent(result)).toBe(20);
+  });
+
+  it("keeps every usage bucket in a keyed map", async () => {
+    fs.writeFileSync(
+      credentialsPath,
+      JSON.stringify({
+        claudeAiOauth: { accessToken: "sk-ant-oat01-valid", expiresAt: Date.now() + 3600_000 }
+      })
+    );
+    vi.stubGlobal(
+      "fetch",
+      vi.fn().mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        statusText: "OK",
+        json: async () => ({
+          five_hour: { utilization: 40, resets_at: "2026-02-02T15:00:00Z" },
+          seven_day: { utilization: 20, resets_at: "2026-02-08T00:00:00Z" },
+          seven_day_oauth_apps: null,
+          seven_day_opus: { utilization: 70, resets_at: "2026-02-08T00:00:00Z" },
+          extra_usage: { is_enabled: false, monthly_limit: null, used_credits: 0, utilization: 0 }
+        })
+      })
+    );
+
+    const result = await fetchClaudeRateLimits();
+    expect(Object.keys(result.buckets ?? {})).toEqual(["five_hour", "seven_day", "seven_day_opus"]);
+    expect(result.seven_day_sonnet).toBeNull();
+    expect(claudeUsageToWindows(result).map((w) => [w.id, w.label, w.scope])).toEqual([
+      ["five_hour", "5h", null],
+      ["seven_day", "7d", "all models"],
+      ["seven_day_opus", "7d", "opus only"]
+    ]);
+  });
+
+  it("reports the subscription type and rate limit tier as the plan", async () => {
+    fs.writeFileSync(
+      credentialsPath,
+      JSON.stringify({
+        claudeAiOauth: {
+          accessToken: "sk-ant-oat01-valid",
+          expiresAt: Date.now() + 3600_000,
+          subscriptionType: "max",
+          rateLimitTier: "default_claude_max_20x"
+        }
+      })
+    );
+    vi.stubGlobal(
+      "fetch",
+      vi.fn().mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        statusText: "OK",
+        json: async () => ({ five_hour: null, seven_day: null })
+      })
+    );
+
+    const result = await fetchClaudeRateLimits();
+    expect(result.subscriptionType).toBe("max");
+    expect(result.rateLimitTier).toBe("default_claude_max_20x");
+    expect(claudePlan(result)).toBe("max 20x");
+    expect(claudePlan({ ...result, rateLimitTier: "default_claude_ai" })).toBe("max");
+    expect(claudePlan({ ...result, subscriptionType: null })).toBeNull();
+  });
+
+  it("reads the signed-in account from the OAuth profile in .claude.json", async () => {
+    fs.writeFileSync(
+      credentialsPath,
+      JSON.stringify({
+        claudeAiOauth: { accessToken: "sk-ant-oat01-valid", expiresAt: Date.now() + 3600_000 }
+      })
+    );
+    fs.writeFileSync(
+      path.join(tmpDir, ".claude.json"),
+      JSON.stringify({
+        oauthAccount: {
+          emailAddress: "jane@example.com",
+          organizationName: "Acme",
+          accountUuid: "0f9e8d7c-1234"
+        }
+      })
+    );
+    vi.stubGlobal(
+      "fetch",
+      vi.fn().mockResolvedValue({
+        ok: true,
+        status: 200,
+        statusText: "OK",
+        json: async () => ({ five_hour: null, seven_day: null })
+      })
+    );
+
+    const result = await fetchClaudeRateLimits();
+    expect(result.account).toEqual({
+      email: "jane@example.com",
+      login: null,
+      organization: "Acme",
+      accountId: "0f9e8d7c-1234"
+    });
+
+    // An explicit config dir has its own global config, which has no profile here
+    const otherDir = path.join(tmpDir, "other");
+    fs.mkdirSync(otherDir);
+    fs.copyFileSync(credentialsPath, path.join(otherDir, ".credentials.json"));
+    const other = await fetchClaudeRateLimits(5000, { configDir: otherDir });
+    expect(other.account).toBeNull();
+  });
+
   it("throws auth_failed when the API response is 401/403", async () => {
     const expiresAt = Date.now() + 3600_000;
     fs.writeFileSync(
@@ -141,5 +301,238 @@ describe("fetchClaudeRateLimits", () => {
       reason: "auth_failed"
     });
   });
+
+  describe("access token refresh", () => {
+    const usageResponse = {
+      ok: true,
+      status: 200,
+      statusText: "OK",
+      json: async () => ({ five_hour: { utilization: 5, resets_at: "2026-02-02T15:00:00Z" } })
+    };
+
+    function writeExpiredCredentials(): void {
+      fs.writeFileSync(
+        credentialsPath,
+        JSON.stringify({
+          claudeAiOauth: {
+            accessToken: "sk-ant-oat01-old",
+            refreshToken: "sk-ant-ort01-refresh",
+            expiresAt: Date.now() - 1000,
+            subscriptionType: "max"
+          }
+        })
+      );
+    }
+
+    it("refreshes an expired token and persists it to the credentials file", async () => {
+      writeExpiredCredentials();
+      const fetchMock = vi
+        .fn()
+        .mockResolvedValueOnce({
+          ok: true,
+          status: 200,
+          statusText: "OK",
+          json: async () => ({
+            access_token: "sk-ant-oat01-new",
+            refresh_token: "sk-ant-ort01-rotated",
+            expires_in: 3600
+          })
+        })
+        .mockResolvedValueOnce(usageResponse);
+      vi.stubGlobal("fetch", fetchMock);
+
+      const result = await fetchClaudeRateLimits();
+      expect(result.five_hour?.utilization).toBe(5);
+
+      const [tokenUrl, tokenInit] = fetchMock.mock.calls[0]!;
+      expect(tokenUrl).toContain("/v1/oauth/token");
+      expect(JSON.parse(tokenInit.body)).toMatchObject({
+        grant_type: "refresh_token",
+        refresh_token: "sk-ant-ort01-refresh"
+      });
+      expect(fetchMock.mock.calls[1]![1].headers.Authorization).toBe("Bearer sk-ant-oat01-new");
+
+      const saved = JSON.parse(fs.readFileSync(credentialsPath, "utf8"));
+      expect(saved.claudeAiOauth.accessToken).toBe("sk-ant-oat01-new");
+      expect(saved.claudeAiOauth.refreshToken).toBe("sk-ant-ort01-rotated");
+      expect(saved.claudeAiOauth.expiresAt).toBeGreaterThan(Date.now());
+      expect(saved.claudeAiOauth.subscriptionType).toBe("max");
+    });
+
+    it.skipIf(process.platform === "win32")(
+      "writes the refreshed token atomically, keeping the file mode",
+      async () => {
+        writeExpiredCredentials();
+        fs.chmodSync(credentialsPath, 0o600);
+        vi.stubGlobal(
+          "fetch",
+          vi
+            .fn()
+            .mockResolvedValueOnce({
+              ok: true,
+              status: 200,
+              statusText: "OK",
+              json: async () => ({ access_token: "sk-ant-oat01-new", expires_in: 3600 })
+            })
+            .mockResolvedValueOnce(usageResponse)
+        );
+
+        await fetchClaudeRateLimits();
+
+        expect(fs.statSync(credentialsPath).mode & 0o777).toBe(0o600);
+        expect(fs.readdirSync(path.dirname(credentialsPath))).toEqual([".credentials.json"]);
+      }
+    );
+
+    it("uses a token another process refreshed while it waited for the lock", async () => {
+      writeExpiredCredentials();
+      const fetchMock = vi.fn().mockResolvedValue(usageResponse);
+      vi.stubGlobal("fetch", fetchMock);
+      let release: () => void = () => undefined;
+      const held = fileStore.withFileLock(
+        credentialsPath,
+        () => new Promise<void>((resolve) => (release = resolve))
+      );
+
+      const pending = fetchClaudeRateLimits();
+      // Claude Code refreshes the token meanwhile
+      fs.writeFileSync(
+        credentialsPath,
+        JSON.stringify({
+          claudeAiOauth: {
+            accessToken: "sk-ant-oat01-other",
+            refreshToken: "sk-ant-ort01-other",
+            expiresAt: Date.now() + 3600_000
+          }
+        })
+      );
+      release();
+      await held;
+      await pending;
+
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+      expect(fetchMock.mock.calls[0]![1].headers.Authorization).toBe("Bearer sk-ant-oat01-other");
+    });
+
+    it("reports a refreshed token that cannot be written back", async () => {
+      writeExpiredCredentials();
+      vi.stubGlobal(
+        "fetch",
+        vi.fn().mockResolvedValueOnce({
+          ok: true,
+          status: 200,
+          statusText: "OK",
+          json: async () => ({ access_token: "sk-ant-oat01-new", expires_in: 3600 })
+        })
+      );
+      vi.spyOn(fileStore, "writeFileAtomic").mockImplementation(() => {
+        throw new Error("EROFS: read-only file system");
+      });
+
+      await expect(fetchClaudeRateLimits()).rejects.toMatchObject({
+        name: "QuotaFetchError",
+        reason: "api_error",
+        message: expect.stringContaining("Failed to write the refreshed Claude token")
+      });
+    });
+
+    it("reports token_expired without refreshing when persistence is disabled", async () => {
+      writeExpiredCredentials();
+      const before = fs.readFileSync(credentialsPath, "utf8");
+      const fetchMock = vi.fn();
+      vi.stubGlobal("fetch", fetchMock);
+
+      await expect(
+        fetchClaudeRateLimits(5000, { persistRefreshedCredentials: false })
+      ).rejects.toMatchObject({ name: "QuotaFetchError", reason: "token_expired" });
+      expect(fetchMock).not.toHaveBeenCalled();
+      expect(fs.readFileSync(credentialsPath, "utf8")).toBe(before);
+    });
+
+    it("throws auth_failed when the refresh token is rejected", async () => {
+      writeExpiredCredentials();
+      vi.stubGlobal(
+        "fetch",
+        vi.fn().mockResolvedValueOnce({
+          ok: false,
+          status: 400,
+          statusText: "Bad Request",
+          json: async () => ({ error: "invalid_grant" })
+        })
+      );
+
+      await expect(fetchClaudeRateLimits()).rejects.toMatchObject({
+        name: "QuotaFetchError",
+        reason: "auth_failed"
+      });
+    });
+  });
+});
+
+describe("formatClaudeExtraUsage", () => {
+  const usage = (extra_usage: ClaudeUsageData["extra_usage"]): ClaudeUsageData => ({
+    five_hour: null,
+    seven_day: null,
+    seven_day_sonnet: null,
+    extra_usage
+  });
+
+  it("shows the monthly spend in dollars against the limit", () => {
+    const data = usage({
+      is_enabled: true,
+      monthly_limit: 5000,
+      used_credits: 1234,
+      utilization: 24.68
+    });
+    expect(formatClaudeExtraUsage(data)).toBe("extra usage: $12.34 / $50.00 (25% used)");
+    expect(claudeExtraUsagePercent(data)).toBeCloseTo(24.68);
+  });
+
+  it("prefers the reported utilization over the spend against the limit", () => {
+    const base = { is_enabled: true, monthly_limit: 5000, used_credits: 1234 };
+    expect(claudeExtraUsagePercent(usage({ ...base, utilization: 30 }))).toBe(30);
+    expect(claudeExtraUsagePercent(usage({ ...base, utilization: Number.NaN }))).toBeCloseTo(
+      24.68
+    );
+  });
+
+  it("handles extra usage without a monthly limit or disabled", () => {
+    const unlimited = usage({
+      is_enabled: true,
+      monthly_limit: null,
+      used_credits: 250,
+      utilization: 0
+    });
+    expect(formatClaudeExtraUsage(unlimited)).toBe("extra usage: $2.50 (no monthly limit)");
+    expect(claudeExtraUsagePercent(unlimited)).toBeNull();
+
+    const disabled = usage({
+      is_enabled: false,
+      monthly_limit: 5000,
+      used_credits: 0,
+      utilization: 0
+    });
+    expect(formatClaudeExtraUsage(disabled)).toBeNull();
+    expect(formatClaudeExtraUsage(usage(null))).toBeNull();
+  });
 });
 
+describe("describeClaudeBucket", () => {
+  it("derives the label, length and scope from the bucket key", () => {
+    expect(describeClaudeBucket("five_hour")).toEqual({
+      label: "5h",
+      windowDurationMs: 5 * 3600_000,
+      scope: null
+    });
+    expect(describeClaudeBucket("seven_day_oauth_apps")).toEqual({
+      label: "7d",
+      windowDurationMs: 7 * 24 * 3600_000,
+      scope: "oauth apps only"
+    });
+    expect(describeClaudeBucket("monthly_opus")).toEqual({
+      label: "monthly_opus",
+      windowDurationMs: null,
+      scope: null
+    });
+  });
+});
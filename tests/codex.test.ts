@@ -1,8 +1,16 @@
 import { describe, expect, it, beforeEach, afterEach, vi } from "vitest";
-import { mkdtemp, rm, mkdir, writeFile } from "node:fs/promises";
+import { mkdtemp, rm, mkdir, writeFile, readFile, realpath } from "node:fs/promises";
+import { createHash } from "node:crypto";
 import { join } from "node:path";
 import { tmpdir } from "node:os";
-import { rateLimitSnapshotToStatus, fetchCodexRateLimits } from "../src/codex.js";
+import {
+  rateLimitSnapshotToStatus,
+  rateLimitSnapshotToWindows,
+  fetchCodexRateLimits,
+  codexKeyringAccount,
+  parseCodexCredits
+} from "../src/codex.js";
+import * as fileStore from "../src/file-store.js";
 
 describe("rateLimitSnapshotToStatus", () => {
   it("maps primary/secondary windows to 5h and weekly usage", () => {
@@ -54,6 +62,18 @@ describe("fetchCodexRateLimits – remote API only", () => {
     });
   });
 
+  it("reads auth.json from CODEX_HOME when no codexHome is given", async () => {
+    process.env.CODEX_HOME = tmpDir;
+    try {
+      await expect(fetchCodexRateLimits()).rejects.toMatchObject({
+        reason: "no_credentials",
+        message: expect.stringContaining(tmpDir)
+      });
+    } finally {
+      delete process.env.CODEX_HOME;
+    }
+  });
+
   it("calls remote endpoint and parses rate_limits", async () => {
     await mkdir(tmpDir, { recursive: true });
     await writeFile(
@@ -179,6 +199,101 @@ describe("fetchCodexRateLimits – remote API only", () => {
     expect(fetchSpy).toHaveBeenCalled();
   });
 
+  it("parses the code review limit, additional limits and structured credits", async () => {
+    await writeFile(
+      join(tmpDir, "auth.json"),
+      JSON.stringify({ tokens: { access_token: "tok" } }),
+      "utf8"
+    );
+
+    vi.spyOn(globalThis, "fetch" as any).mockResolvedValue({
+      ok: true,
+      status: 200,
+      statusText: "OK",
+      text: async () =>
+        JSON.stringify({
+          rate_limit: {
+            primary_window: { used_percent: 5, limit_window_seconds: 18000, reset_at: 1 }
+          },
+          code_review_rate_limit: {
+            limit_reached: false,
+            primary_window: { used_percent: 30, limit_window_seconds: 604800, reset_at: 2 },
+            secondary_window: null
+          },
+          additional_rate_limits: [
+            {
+              limit_name: "GPT-5-Codex-Spark",
+              metered_feature: "codex_spark",
+              rate_limit: {
+                primary_window: { used_percent: 70, limit_window_seconds: 18000, reset_at: 3 }
+              }
+            }
+          ],
+          credits: { has_credits: true, unlimited: false, balance: "12.5" }
+        })
+    } as any);
+
+    const result = await fetchCodexRateLimits({ codexHome: tmpDir, timeoutSeconds: 1 });
+    expect(result.additionalLimits).toEqual({
+      code_review: {
+        primary: { used_percent: 30, windowDurationMins: 10080, resetsAt: 2 },
+        secondary: null,
+        limitReached: false
+      },
+      codex_spark: {
+        primary: { used_percent: 70, windowDurationMins: 300, resetsAt: 3 },
+        secondary: null,
+        limitReached: null
+      }
+    });
+
+    const status = rateLimitSnapshotToStatus(result);
+    expect(status?.additionalLimits.code_review?.map((w) => w.key)).toEqual(["weekly"]);
+    expect(status?.creditDetails).toEqual({ hasCredits: true, unlimited: false, balance: 12.5 });
+    expect(status?.credits).toBe(12.5);
+    expect(rateLimitSnapshotToWindows(result).map((w) => [w.id, w.scope])).toEqual([
+      ["fiveHour", null],
+      ["code_review.weekly", "code review"],
+      ["codex_spark.fiveHour", "codex spark"]
+    ]);
+  });
+
+  it("reads the signed-in account from the id_token claims", async () => {
+    const claims = {
+      email: "jane@example.com",
+      "https://api.openai.com/auth": {
+        chatgpt_account_id: "acct-1234",
+        organizations: [
+          { id: "org-1", title: "Personal", is_default: false },
+          { id: "org-2", title: "Acme", is_default: true }
+        ]
+      }
+    };
+    const idToken = `header.${Buffer.from(JSON.stringify(claims)).toString("base64url")}.sig`;
+    await writeFile(
+      join(tmpDir, "auth.json"),
+      JSON.stringify({ tokens: { access_token: "tok", id_token: idToken } }),
+      "utf8"
+    );
+    vi.spyOn(globalThis, "fetch" as any).mockResolvedValue({
+      ok: true,
+      status: 200,
+      statusText: "OK",
+      text: async () =>
+        JSON.stringify({
+          rate_limits: { primary: { used_percent: 10, limit_window_seconds: 18000 } }
+        })
+    } as any);
+
+    const result = await fetchCodexRateLimits({ codexHome: tmpDir, timeoutSeconds: 1 });
+    expect(result.account).toEqual({
+      email: "jane@example.com",
+      login: null,
+      organization: "Acme",
+      accountId: "acct-1234"
+    });
+  });
+
   it("throws endpoint_changed on 404", async () => {
     await writeFile(
       join(tmpDir, "auth.json"),
@@ -198,3 +313,362 @@ describe("fetchCodexRateLimits – remote API only", () => {
     );
   });
 });
+
+describe("fetchCodexRateLimits – token refresh", () => {
+  let tmpDir: string;
+  const jwt = (exp: number) =>
+    `header.${Buffer.from(JSON.stringify({ exp })).toString("base64url")}.sig`;
+  const usageResponse = {
+    ok: true,
+    status: 200,
+    statusText: "OK",
+    text: async () =>
+      JSON.stringify({
+        rate_limits: { primary: { used_percent: 10, limit_window_seconds: 18000 } }
+      })
+  };
+  const tokenResponse = (body: unknown, status = 200) => ({
+    ok: status === 200,
+    status,
+    statusText: status === 200 ? "OK" : "Unauthorized",
+    text: async () => JSON.stringify(body)
+  });
+
+  beforeEach(async () => {
+    tmpDir = await mkdtemp(join(tmpdir(), "ai-quota-codex-refresh-"));
+  });
+
+  afterEach(async () => {
+    await rm(tmpDir, { recursive: true, force: true });
+    vi.restoreAllMocks();
+  });
+
+  async function writeAuth(tokens: Record<string, unknown>, extra: Record<string, unknown> = {}) {
+    await writeFile(
+      join(tmpDir, "auth.json"),
+      JSON.stringify({ OPENAI_API_KEY: null, tokens, ...extra }),
+      "utf8"
+    );
+  }
+
+  it("refreshes an expired access token and writes it back to auth.json", async () => {
+    const expired = jwt(Math.floor(Date.now() / 1000) - 60);
+    await writeAuth({ access_token: expired, refresh_token: "rt-old", account_id: "acc" });
+
+    const fetchSpy = vi
+      .spyOn(globalThis, "fetch" as any)
+      .mockResolvedValueOnce(
+        tokenResponse({ access_token: "at-new", refresh_token: "rt-new" }) as any
+      )
+      .mockResolvedValueOnce(usageResponse as any);
+
+    const result = await fetchCodexRateLimits({ codexHome: tmpDir, timeoutSeconds: 1 });
+    expect(result.primary?.used_percent).toBe(10);
+
+    const [tokenUrl, tokenInit] = fetchSpy.mock.calls[0] as [string, RequestInit];
+    expect(tokenUrl).toBe("https://auth.openai.com/oauth/token");
+    expect(JSON.parse(tokenInit.body as string)).toMatchObject({
+      client_id: "app_EMoamEEZ73f0CkXaXp7hrann",
+      grant_type: "refresh_token",
+      refresh_token: "rt-old"
+    });
+    const usageInit = fetchSpy.mock.calls[1]![1] as RequestInit;
+    expect((usageInit.headers as Record<string, string>).Authorization).toBe("Bearer at-new");
+
+    const saved = JSON.parse(await readFile(join(tmpDir, "auth.json"), "utf8"));
+    expect(saved.tokens).toEqual({
+      access_token: "at-new",
+      refresh_token: "rt-new",
+      account_id: "acc"
+    });
+    expect(saved.OPENAI_API_KEY).toBeNull();
+    expect(typeof saved.last_refresh).toBe("string");
+  });
+
+  it("refreshes when last_refresh is older than eight days", async () => {
+    await writeAuth(
+      { access_token: "opaque", refresh_token: "rt" },
+      { last_refresh: new Date(Date.now() - 9 * 24 * 3600_000).toISOString() }
+    );
+
+    const fetchSpy = vi
+      .spyOn(globalThis, "fetch" as any)
+      .mockResolvedValueOnce(tokenResponse({ access_token: "at-new" }) as any)
+      .mockResolvedValueOnce(usageResponse as any);
+
+    await fetchCodexRateLimits({ codexHome: tmpDir, timeoutSeconds: 1 });
+
+    expect(fetchSpy).toHaveBeenCalledTimes(2);
+    const saved = JSON.parse(await readFile(join(tmpDir, "auth.json"), "utf8"));
+    expect(saved.tokens).toEqual({ access_token: "at-new", refresh_token: "rt" });
+  });
+
+  it("reports token_expired without refreshing when persistence is disabled", async () => {
+    await writeAuth({ access_token: jwt(0), refresh_token: "rt" });
+    const before = await readFile(join(tmpDir, "auth.json"), "utf8");
+    const fetchSpy = vi.spyOn(globalThis, "fetch" as any);
+
+    await expect(
+      fetchCodexRateLimits({
+        codexHome: tmpDir,
+        timeoutSeconds: 1,
+        persistRefreshedCredentials: false
+      })
+    ).rejects.toMatchObject({ name: "QuotaFetchError", reason: "token_expired" });
+    expect(fetchSpy).not.toHaveBeenCalled();
+    expect(await readFile(join(tmpDir, "auth.json"), "utf8")).toBe(before);
+  });
+
+  it("uses a token another process refreshed while it waited for the lock", async () => {
+    await writeAuth({ access_token: jwt(0), refresh_token: "rt-old" });
+    const fresh = jwt(Math.floor(Date.now() / 1000) + 3600);
+
+    const fetchSpy = vi.spyOn(globalThis, "fetch" as any).mockResolvedValue(usageResponse as any);
+    let release: () => void = () => undefined;
+    const held = fileStore.withFileLock(
+      join(tmpDir, "auth.json"),
+      () => new Promise<void>((resolve) => (release = resolve))
+    );
+
+    const pending = fetchCodexRateLimits({ codexHome: tmpDir, timeoutSeconds: 1 });
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    // Codex refreshes the token meanwhile
+    await writeAuth({ access_token: fresh, refresh_token: "rt-other" });
+    release();
+    await held;
+    await pending;
+    expect(fetchSpy).toHaveBeenCalledTimes(1);
+    const init = fetchSpy.mock.calls[0]![1] as RequestInit;
+    expect((init.headers as Record<string, string>).Authorization).toBe(`Bearer ${fresh}`);
+  });
+
+  it("reports refreshed tokens that cannot be written back", async () => {
+    await writeAuth({ access_token: jwt(0), refresh_token: "rt-old" });
+    vi.spyOn(fileStore, "writeFileAtomic").mockImplementation(() => {
+      throw new Error("EACCES");
+    });
+    const fetchSpy = vi
+      .spyOn(globalThis, "fetch" as any)
+      .mockResolvedValueOnce(
+        tokenResponse({ access_token: "at-new", refresh_token: "rt-new" }) as any
+      );
+
+    await expect(
+      fetchCodexRateLimits({ codexHome: tmpDir, timeoutSeconds: 1 })
+    ).rejects.toMatchObject({
+      name: "QuotaFetchError",
+      reason: "api_error",
+      message: expect.stringContaining("Failed to write the refreshed Codex tokens")
+    });
+    expect(fetchSpy).toHaveBeenCalledTimes(1);
+  });
+
+  it("refreshes and retries once when the usage endpoint answers 401", async () => {
+    await writeAuth({
+      access_token: jwt(Math.floor(Date.now() / 1000) + 3600),
+      refresh_token: "rt"
+    });
+
+    const fetchSpy = vi
+      .spyOn(globalThis, "fetch" as any)
+      .mockResolvedValueOnce({
+        ok: false,
+        status: 401,
+        statusText: "Unauthorized",
+        text: async () => ""
+      } as any)
+      .mockResolvedValueOnce(tokenResponse({ access_token: "at-new" }) as any)
+      .mockResolvedValueOnce(usageResponse as any);
+
+    const result = await fetchCodexRateLimits({ codexHome: tmpDir, timeoutSeconds: 1 });
+    expect(result.primary?.used_percent).toBe(10);
+    expect(fetchSpy).toHaveBeenCalledTimes(3);
+  });
+
+  it("reports token_expired when the refresh token was revoked", async () => {
+    await writeAuth({ access_token: jwt(0), refresh_token: "revoked" });
+
+    vi.spyOn(globalThis, "fetch" as any).mockResolvedValueOnce(
+      tokenResponse({ error: { code: "refresh_token_invalidated" } }, 401) as any
+    );
+
+    await expect(
+      fetchCodexRateLimits({ codexHome: tmpDir, timeoutSeconds: 1 })
+    ).rejects.toMatchObject({ name: "QuotaFetchError", reason: "token_expired", httpStatus: 401 });
+  });
+});
+
+describe("fetchCodexRateLimits – API key and keyring modes", () => {
+  let tmpDir: string;
+  const usageResponse = {
+    ok: true,
+    status: 200,
+    statusText: "OK",
+    text: async () =>
+      JSON.stringify({
+        rate_limits: { primary: { used_percent: 12, limit_window_seconds: 18000 } }
+      })
+  };
+
+  beforeEach(async () => {
+    tmpDir = await mkdtemp(join(tmpdir(), "ai-quota-codex-store-"));
+  });
+
+  afterEach(async () => {
+    await rm(tmpDir, { recursive: true, force: true });
+    vi.restoreAllMocks();
+  });
+
+  it("reports API-key sign-in as not_applicable without calling the API", async () => {
+    await writeFile(
+      join(tmpDir, "auth.json"),
+      JSON.stringify({ OPENAI_API_KEY: "sk-test", tokens: null }),
+      "utf8"
+    );
+    const fetchSpy = vi.spyOn(globalThis, "fetch" as any);
+
+    await expect(fetchCodexRateLimits({ codexHome: tmpDir })).rejects.toMatchObject({
+      name: "QuotaFetchError",
+      reason: "not_applicable",
+      message: "API key billing"
+    });
+    expect(fetchSpy).not.toHaveBeenCalled();
+  });
+
+  it("derives the keyring account from the canonical Codex home", async () => {
+    const digest = createHash("sha256")
+      .update(await realpath(tmpDir))
+      .digest("hex");
+    expect(await codexKeyringAccount(tmpDir)).toBe(`cli|${digest.slice(0, 16)}`);
+  });
+
+  it("reads credentials from the keyring when the store is keyring", async () => {
+    await writeFile(
+      join(tmpDir, "config.toml"),
+      'cli_auth_credentials_store = "keyring"\n',
+      "utf8"
+    );
+    const secretLookup = vi
+      .fn()
+      .mockResolvedValue(JSON.stringify({ tokens: { access_token: "keyring-tok" } }));
+    const fetchSpy = vi.spyOn(globalThis, "fetch" as any).mockResolvedValue(usageResponse as any);
+
+    const result = await fetchCodexRateLimits({
+      codexHome: tmpDir,
+      timeoutSeconds: 1,
+      secretLookup
+    });
+
+    expect(result.primary?.used_percent).toBe(12);
+    expect(secretLookup).toHaveBeenCalledWith("Codex Auth", await codexKeyringAccount(tmpDir));
+    const init = fetchSpy.mock.calls[0]![1] as RequestInit;
+    expect((init.headers as Record<string, string>).Authorization).toBe("Bearer keyring-tok");
+  });
+
+  it("reports a stale keyring token as token_expired without refreshing it", async () => {
+    await writeFile(
+      join(tmpDir, "config.toml"),
+      'cli_auth_credentials_store = "keyring"\n',
+      "utf8"
+    );
+    const expired = `header.${Buffer.from(JSON.stringify({ exp: 0 })).toString("base64url")}.sig`;
+    const secretLookup = vi
+      .fn()
+      .mockResolvedValue(
+        JSON.stringify({ tokens: { access_token: expired, refresh_token: "rt" } })
+      );
+    const fetchSpy = vi.spyOn(globalThis, "fetch" as any);
+
+    await expect(
+      fetchCodexRateLimits({ codexHome: tmpDir, timeoutSeconds: 1, secretLookup })
+    ).rejects.toMatchObject({
+      name: "QuotaFetchError",
+      reason: "token_expired",
+      message: expect.stringContaining("keyring")
+    });
+    expect(fetchSpy).not.toHaveBeenCalled();
+  });
+
+  it("does not refresh a keyring token that the usage endpoint rejects", async () => {
+    await writeFile(
+      join(tmpDir, "config.toml"),
+      'cli_auth_credentials_store = "keyring"\n',
+      "utf8"
+    );
+    const secretLookup = vi
+      .fn()
+      .mockResolvedValue(JSON.stringify({ tokens: { access_token: "tok", refresh_token: "rt" } }));
+    const fetchSpy = vi.spyOn(globalThis, "fetch" as any).mockResolvedValue({
+      ok: false,
+      status: 401,
+      statusText: "Unauthorized",
+      text: async () => ""
+    } as any);
+
+    await expect(
+      fetchCodexRateLimits({ codexHome: tmpDir, timeoutSeconds: 1, secretLookup })
+    ).rejects.toMatchObject({ reason: "token_expired" });
+    expect(fetchSpy).toHaveBeenCalledTimes(1);
+    expect(fetchSpy.mock.calls[0]![0]).toBe("https://chatgpt.com/backend-api/wham/usage");
+  });
+
+  it("falls back to the keyring in auto mode only when auth.json is missing", async () => {
+    await writeFile(join(tmpDir, "config.toml"), 'cli_auth_credentials_store = "auto"\n', "utf8");
+    const secretLookup = vi.fn().mockResolvedValue(null);
+
+    await expect(fetchCodexRateLimits({ codexHome: tmpDir, secretLookup })).rejects.toMatchObject({
+      reason: "no_credentials",
+      message: expect.stringContaining("keyring")
+    });
+    expect(secretLookup).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("parseCodexCredits", () => {
+  it("accepts credit objects and bare balances", () => {
+    expect(parseCodexCredits({ has_credits: false, unlimited: false, balance: null })).toEqual({
+      hasCredits: false,
+      unlimited: false,
+      balance: null
+    });
+    expect(parseCodexCredits({ unlimited: true })).toEqual({
+      hasCredits: true,
+      unlimited: true,
+      balance: null
+    });
+    expect(parseCodexCredits(3)).toEqual({ hasCredits: true, unlimited: false, balance: 3 });
+    expect(parseCodexCredits(null)).toBeNull();
+  });
+});
+
+describe("rateLimitSnapshotToWindows", () => {
+  it("normalizes Codex windows with durations", () => {
+    const now = new Date("2026-02-02T10:00:00Z");
+    const windows = rateLimitSnapshotToWindows(
+      {
+        primary: { used_percent: 40, windowDurationMins: 300, resetsAt: 1_770_020_000 },
+        secondary: { used_percent: 10, windowDurationMins: 10080, resetsAt: 1_770_120_000 }
+      },
+      now
+    );
+
+    expect(windows).toEqual([
+      {
+        id: "fiveHour",
+        label: "5h",
+        usedPercent: 40,
+        resetAt: new Date(1_770_020_000 * 1000),
+        windowDurationMs: 300 * 60000,
+        scope: null
+      },
+      {
+        id: "weekly",
+        label: "7d",
+        usedPercent: 10,
+        resetAt: new Date(1_770_120_000 * 1000),
+        windowDurationMs: 10080 * 60000,
+        scope: null
+      }
+    ]);
+  });
+});
@@ -1,5 +1,21 @@
 import { describe, expect, it, vi, afterEach } from "vitest";
-import { parseCopilotUserInfo, parseCopilotQuotaHeader, getCopilotToken } from "../src/copilot.js";
+import os from "node:os";
+import path from "node:path";
+import {
+  parseCopilotUserInfo,
+  parseCopilotQuotaHeader,
+  getCopilotToken,
+  discoverCopilotToken,
+  parseCopilotAppsJson,
+  getGhConfigDirs,
+  copilotUsageToWindows,
+  copilotPlan,
+  parseGhHostsYaml,
+  gitHubApiBaseUrl,
+  normalizeGitHubHost,
+  resolveGitHubHost
+} from "../src/copilot.js";
+import { execFileSync } from "node:child_process";
 
 describe("getCopilotToken", () => {
   const originalEnv = process.env;
@@ -10,12 +26,44 @@ describe("getCopilotToken", () => {
   });
 
   it("returns token from GITHUB_TOKEN environment variable", () => {
+    delete process.env.GH_TOKEN;
+    delete process.env.COPILOT_GITHUB_TOKEN;
     process.env.GITHUB_TOKEN = "test-token";
     expect(getCopilotToken()).toBe("test-token");
   });
 
+  it("prefers COPILOT_GITHUB_TOKEN, then GH_TOKEN, over GITHUB_TOKEN", () => {
+    process.env.GITHUB_TOKEN = "github-token";
+    process.env.GH_TOKEN = "gh-token";
+    expect(discoverCopilotToken()).toEqual({
+      token: "gh-token",
+      source: { kind: "env", location: "GH_TOKEN" }
+    });
+    process.env.COPILOT_GITHUB_TOKEN = "copilot-token";
+    expect(getCopilotToken()).toBe("copilot-token");
+  });
+
+  it("ignores the token env vars when an account config dir is given", () => {
+    process.env.COPILOT_GITHUB_TOKEN = "copilot-token";
+    process.env.GH_TOKEN = "gh-token";
+    process.env.GITHUB_TOKEN = "github-token";
+    delete process.env.GH_HOST;
+    vi.mocked(execFileSync).mockImplementationOnce(() => "gho_account\n");
+
+    expect(discoverCopilotToken(false, { configDir: "/accounts/work/gh" })).toEqual({
+      token: "gho_account",
+      source: { kind: "gh-cli", location: "gh auth token --hostname github.com" }
+    });
+    const env = vi.mocked(execFileSync).mock.lastCall![2]!.env!;
+    expect(env.GH_CONFIG_DIR).toBe("/accounts/work/gh");
+    expect(env.GH_TOKEN).toBeUndefined();
+    expect(env.GITHUB_TOKEN).toBeUndefined();
+  });
+
   it("returns null when no token source is available", () => {
     delete process.env.GITHUB_TOKEN;
+    delete process.env.GH_TOKEN;
+    delete process.env.COPILOT_GITHUB_TOKEN;
     // Mock fs.existsSync to always return false
     vi.mock("node:fs", async () => {
       const actual = (await vi.importActual("node:fs")) as any;
@@ -25,17 +73,132 @@ describe("getCopilotToken", () => {
         existsSync: () => false
       };
     });
-    // Mock child_process.execSync to throw
+    // Mock child_process.execFileSync to throw
     vi.mock("node:child_process", () => ({
-      execSync: () => {
+      execFileSync: vi.fn(() => {
         throw new Error("not found");
-      }
+      })
     }));
 
     expect(getCopilotToken()).toBeNull();
   });
 });
 
+describe("GitHub Enterprise hosts", () => {
+  const originalEnv = process.env;
+
+  afterEach(() => {
+    process.env = { ...originalEnv };
+  });
+
+  it("parses the token of each host in hosts.yml", () => {
+    const tokens = parseGhHostsYaml(
+      [
+        "github.com:",
+        "    user: octocat",
+        "    git_protocol: https",
+        "    users:",
+        "        octocat:",
+        "            oauth_token: gho_public",
+        "octo.ghe.com:",
+        "    oauth_token: gho_tenant",
+        "    user: octo-cat",
+        "ghes.example.com:",
+        "    user: keyring-only",
+        ""
+      ].join("\n")
+    );
+    expect(tokens).toEqual({ "github.com": "gho_public", "octo.ghe.com": "gho_tenant" });
+  });
+
+  it("reads the Copilot plugin token for the selected host", () => {
+    const apps = JSON.stringify({
+      "github.com:Iv1.b507a08c87ecfe98": { user: "octocat", oauth_token: "ghu_public" },
+      "octo.ghe.com:Iv1.b507a08c87ecfe98": { user: "octo-cat", oauth_token: "ghu_tenant" }
+    });
+    expect(parseCopilotAppsJson(apps, "octo.ghe.com")).toBe("ghu_tenant");
+    const hosts = JSON.stringify({ "github.com": { user: "octocat", oauth_token: "gho_x" } });
+    expect(parseCopilotAppsJson(hosts, "github.com")).toBe("gho_x");
+    expect(parseCopilotAppsJson("not json", "github.com")).toBeNull();
+  });
+
+  it("derives the API base URL from the host", () => {
+    expect(gitHubApiBaseUrl("github.com")).toBe("https://api.github.com");
+    expect(gitHubApiBaseUrl("https://Octo.ghe.com/")).toBe("https://api.octo.ghe.com");
+    expect(gitHubApiBaseUrl("ghes.example.com")).toBe("https://ghes.example.com/api/v3");
+  });
+
+  it("resolves the host from the option, then GH_HOST", () => {
+    process.env.GH_HOST = "octo.ghe.com";
+    expect(resolveGitHubHost("ghes.example.com")).toBe("ghes.example.com");
+    expect(resolveGitHubHost()).toBe("octo.ghe.com");
+    delete process.env.GH_HOST;
+    expect(resolveGitHubHost()).toBe("github.com");
+  });
+
+  it("rejects host values that are not host names before running gh", () => {
+    expect(normalizeGitHubHost("ghes.example.com:8443")).toBe("ghes.example.com:8443");
+    for (const host of ["x$(touch pwned_marker)", "x`id`", 'x" ; id', "a b.com", "-flag"]) {
+      expect(() => normalizeGitHubHost(host)).toThrow(/Invalid GitHub host/);
+    }
+    delete process.env.GH_TOKEN;
+    delete process.env.GITHUB_TOKEN;
+    delete process.env.COPILOT_GITHUB_TOKEN;
+    vi.mocked(execFileSync).mockClear();
+    process.env.GH_HOST = "x$(touch pwned_marker)";
+    expect(() => discoverCopilotToken()).toThrow(/Invalid GitHub host/);
+    expect(execFileSync).not.toHaveBeenCalled();
+  });
+
+  it("passes the host to gh as an argument, without a shell", () => {
+    delete process.env.GH_TOKEN;
+    delete process.env.GITHUB_TOKEN;
+    delete process.env.COPILOT_GITHUB_TOKEN;
+    vi.mocked(execFileSync).mockImplementationOnce(() => "gho_cli\n");
+    const found = discoverCopilotToken(false, { host: "octo.ghe.com" });
+    expect(found).toEqual({
+      token: "gho_cli",
+      source: { kind: "gh-cli", location: "gh auth token --hostname octo.ghe.com" }
+    });
+    expect(execFileSync).toHaveBeenCalledWith(
+      "gh",
+      ["auth", "token", "--hostname", "octo.ghe.com"],
+      expect.objectContaining({ encoding: "utf8", timeout: 5000 })
+    );
+  });
+
+  it("uses GH_ENTERPRISE_TOKEN instead of GITHUB_TOKEN for Enterprise Server hosts", () => {
+    delete process.env.GH_TOKEN;
+    delete process.env.COPILOT_GITHUB_TOKEN;
+    process.env.GITHUB_TOKEN = "public-token";
+    process.env.GH_ENTERPRISE_TOKEN = "enterprise-token";
+    expect(getCopilotToken(false, { host: "ghes.example.com" })).toBe("enterprise-token");
+    expect(getCopilotToken(false, { host: "octo.ghe.com" })).toBe("public-token");
+  });
+});
+
+describe("getGhConfigDirs", () => {
+  const originalEnv = process.env;
+
+  afterEach(() => {
+    process.env = { ...originalEnv };
+  });
+
+  it("prefers an explicit directory, then GH_CONFIG_DIR", () => {
+    process.env.GH_CONFIG_DIR = "/env/gh";
+    expect(getGhConfigDirs("/explicit/gh")).toEqual(["/explicit/gh"]);
+    expect(getGhConfigDirs()).toEqual(["/env/gh"]);
+  });
+
+  it("falls back to XDG_CONFIG_HOME and the default locations", () => {
+    delete process.env.GH_CONFIG_DIR;
+    process.env.XDG_CONFIG_HOME = "/xdg";
+    const dirs = getGhConfigDirs();
+    expect(dirs[0]).toBe(path.join("/xdg", "gh"));
+    expect(dirs).toContain(path.join(os.homedir(), ".config", "gh"));
+  });
+});
+
 describe("parseCopilotUserInfo", () => {
   it("parses premium interactions snapshot", () => {
     const usage = parseCopilotUserInfo({
@@ -58,6 +221,105 @@ describe("parseCopilotUserInfo", () => {
     expect(usage?.source).toBe("user");
   });
 
+  it("computes absolute remaining requests from the entitlement", () => {
+    const usage = parseCopilotUserInfo({
+      quota_snapshots: {
+        premium_interactions: {
+          entitlement: 300,
+          percent_remaining: 0,
+          overage_count: 12,
+          overage_permitted: true
+        },
+        chat: { entitlement: 50, percent_remaining: 40, remaining: 21 }
+      },
+      quota_reset_date: "2026-02-15T00:00:00Z"
+    });
+
+    expect(
+      copilotUsageToWindows(usage!).map((w) => [w.id, w.remaining, w.limit, w.overage])
+    ).toEqual([
+      ["premium_interactions", 0, 300, 12],
+      ["chat", 21, 50, 0]
+    ]);
+  });
+
+  it("keeps every quota category with its unlimited flag", () => {
+    const usage = parseCopilotUserInfo({
+      quota_snapshots: {
+        chat: { entitlement: 0, percent_remaining: 100, unlimited: true },
+        completions: { entitlement: 0, percent_remaining: 100, unlimited: true },
+        premium_interactions: {
+          entitlement: 300,
+          percent_remaining: 40,
+          remaining: 120,
+          unlimited: false
+        }
+      },
+      quota_reset_date: "2026-03-01"
+    });
+
+    expect(Object.keys(usage?.quotas ?? {})).toEqual(["chat", "completions", "premium_interactions"]);
+    expect(usage?.quotas.chat?.unlimited).toBe(true);
+    expect(usage?.quotas.premium_interactions?.remaining).toBe(120);
+    expect(usage?.percentRemaining).toBe(40);
+    expect(copilotUsageToWindows(usage!).map((w) => w.id)).toEqual(["premium_interactions"]);
+  });
+
+  it("parses Copilot Free limited_user_quotas / monthly_quotas", () => {
+    const usage = parseCopilotUserInfo({
+      copilot_plan: "free",
+      limited_user_quotas: { chat: 10, completions: 1500 },
+      monthly_quotas: { chat: 50, completions: 2000 },
+      limited_user_reset_date: "2026-03-01"
+    });
+
+    expect(usage?.quotas.chat).toMatchObject({ entitlement: 50, remaining: 10, percentRemaining: 20 });
+    expect(usage?.quotas.completions).toMatchObject({ percentRemaining: 75, unlimited: false });
+    // No premium quota: the top-level fields describe the most constraining category
+    expect(usage?.percentRemaining).toBe(20);
+    expect(usage?.entitlement).toBe(50);
+    expect(copilotUsageToWindows(usage!).map((w) => [w.scope, w.usedPercent])).toEqual([
+      ["chat", 80],
+      ["completions", 25]
+    ]);
+  });
+
+  it("reads the plan and SKU", () => {
+    const base = {
+      quota_reset_date: "2026-03-01T00:00:00Z",
+      quota_snapshots: { premium_interactions: { entitlement: 1500, percent_remaining: 90 } }
+    };
+    const pro = parseCopilotUserInfo({
+      ...base,
+      copilot_plan: "individual",
+      access_type_sku: "plus_monthly_subscriber_quota"
+    });
+    expect(pro).toMatchObject({
+      copilotPlan: "individual",
+      accessTypeSku: "plus_monthly_subscriber_quota"
+    });
+    expect(copilotPlan(pro!)).toBe("pro+");
+
+    const business = parseCopilotUserInfo({ ...base, copilot_plan: "business" });
+    expect(copilotPlan(business!)).toBe("business");
+    expect(copilotPlan({ ...business!, accessTypeSku: "free_limited_copilot" })).toBe("free");
+  });
+
+  it("reads the GitHub login and first organization as the account", () => {
+    const usage = parseCopilotUserInfo({
+      login: "octocat",
+      organization_login_list: ["acme", "octo-org"],
+      quota_reset_date: "2026-03-01T00:00:00Z",
+      quota_snapshots: { premium_interactions: { entitlement: 1500, percent_remaining: 90 } }
+    });
+    expect(usage?.account).toEqual({
+      email: null,
+      login: "octocat",
+      organization: "acme",
+      accountId: null
+    });
+  });
+
   it("returns null when quota_snapshots is missing", () => {
     expect(parseCopilotUserInfo({ quota_reset_date: "2026-02-15T00:00:00Z" })).toBeNull();
   });
@@ -112,6 +374,16 @@ describe("parseCopilotQuotaHeader", () => {
     expect(usage?.source).toBe("header");
   });
 
+  it("records the quota category named by the header", () => {
+    const usage = parseCopilotQuotaHeader(
+      "ent=50&rem=20&rst=2026-02-15T00:00:00Z",
+      new Date("2026-02-02T00:00:00Z"),
+      "chat"
+    );
+    expect(Object.keys(usage?.quotas ?? {})).toEqual(["chat"]);
+    expect(usage?.quotas.chat?.percentRemaining).toBe(20);
+  });
+
   it("returns null for empty string", () => {
     expect(parseCopilotQuotaHeader("")).toBeNull();
     expect(parseCopilotQuotaHeader("   ")).toBeNull();
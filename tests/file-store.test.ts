@@ -0,0 +1,76 @@
+import { describe, expect, it, beforeEach, afterEach } from "vitest";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { updateJsonFile, withFileLock, writeFileAtomic } from "../src/file-store.js";
+
+describe("file store", () => {
+  let tmpDir: string;
+  let filePath: string;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "ai-quota-file-store-"));
+    filePath = path.join(tmpDir, "oauth_creds.json");
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it.skipIf(process.platform === "win32")(
+    "replaces the file without leaving temp files and keeps its mode",
+    () => {
+      fs.writeFileSync(filePath, "old");
+      fs.chmodSync(filePath, 0o640);
+
+      writeFileAtomic(filePath, "new");
+
+      expect(fs.readFileSync(filePath, "utf8")).toBe("new");
+      expect(fs.statSync(filePath).mode & 0o777).toBe(0o640);
+      expect(fs.readdirSync(tmpDir)).toEqual(["oauth_creds.json"]);
+    }
+  );
+
+  it.skipIf(process.platform === "win32")("creates new files readable by the owner only", () => {
+    writeFileAtomic(filePath, "{}");
+    expect(fs.statSync(filePath).mode & 0o777).toBe(0o600);
+  });
+
+  it("serializes holders of the same lock", async () => {
+    const order: string[] = [];
+    const first = withFileLock(filePath, async () => {
+      order.push("first:start");
+      await new Promise((resolve) => setTimeout(resolve, 100));
+      order.push("first:end");
+    });
+    const second = withFileLock(filePath, () => {
+      order.push("second");
+    });
+
+    await Promise.all([first, second]);
+    expect(order).toEqual(["first:start", "first:end", "second"]);
+    expect(fs.existsSync(`${filePath}.lock`)).toBe(false);
+  });
+
+  it("breaks a stale lock and times out on a live one", async () => {
+    fs.writeFileSync(`${filePath}.lock`, "12345");
+    await expect(withFileLock(filePath, () => "done", { timeoutMs: 100 })).rejects.toThrow(
+      /Timed out waiting for lock/
+    );
+
+    const old = new Date(Date.now() - 60_000);
+    fs.utimesSync(`${filePath}.lock`, old, old);
+    await expect(withFileLock(filePath, () => "done")).resolves.toBe("done");
+  });
+
+  it("merges updates into the current file contents", async () => {
+    fs.writeFileSync(filePath, JSON.stringify({ access_token: "old", refresh_token: "keep" }));
+
+    await updateJsonFile(filePath, (current) => ({ ...current, access_token: "new" }));
+
+    expect(JSON.parse(fs.readFileSync(filePath, "utf8"))).toEqual({
+      access_token: "new",
+      refresh_token: "keep"
+    });
+  });
+});
@@ -0,0 +1,185 @@
+import { describe, expect, it, vi, beforeEach, afterEach } from "vitest";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { forecastWindow, formatWindowsForecast } from "../src/windows.js";
+import { forecastQuotaResults } from "../src/forecast.js";
+import { recordQuotaHistory } from "../src/history.js";
+import { fetchAllRateLimits } from "../src/index.js";
+import * as claude from "../src/claude.js";
+import type { QuotaResult, QuotaWindow } from "../src/types.js";
+
+const resetAt = new Date("2026-10-19T13:00:00.000Z");
+
+function fiveHour(usedPercent: number, reset: Date | null = resetAt): QuotaWindow {
+  return {
+    id: "five_hour",
+    label: "5h",
+    usedPercent,
+    resetAt: reset,
+    windowDurationMs: 5 * 60 * 60 * 1000,
+    scope: null
+  };
+}
+
+function okResult(fetchedAt: Date, windows: QuotaWindow[]): QuotaResult<unknown> {
+  return {
+    status: "ok",
+    reason: null,
+    error: null,
+    data: {},
+    display: "",
+    windows,
+    fetchedAt,
+    fromCache: false
+  };
+}
+
+describe("forecastWindow", () => {
+  const readingAt = new Date("2026-10-19T10:00:00.000Z");
+
+  it("projects exhaustion from the burn rate since the previous reading", () => {
+    const previous = { at: new Date("2026-10-19T09:30:00.000Z"), usedPercent: 45, resetAt };
+    expect(forecastWindow(fiveHour(65), previous, readingAt)).toEqual({
+      burnRatePercentPerHour: 40,
+      projectedExhaustionAt: new Date("2026-10-19T10:52:30.000Z"),
+      willExhaustBeforeReset: true
+    });
+  });
+
+  it("reports windows that outlast their reset or do not grow", () => {
+    const slow = { at: new Date("2026-10-19T09:00:00.000Z"), usedPercent: 60, resetAt };
+    expect(forecastWindow(fiveHour(65), slow, readingAt)).toMatchObject({
+      burnRatePercentPerHour: 5,
+      willExhaustBeforeReset: false
+    });
+    expect(forecastWindow(fiveHour(65), { ...slow, usedPercent: 65 }, readingAt)).toEqual({
+      burnRatePercentPerHour: 0,
+      projectedExhaustionAt: null,
+      willExhaustBeforeReset: false
+    });
+    expect(forecastWindow(fiveHour(65, null), { ...slow, resetAt: null }, readingAt)).toMatchObject(
+      { willExhaustBeforeReset: null }
+    );
+  });
+
+  it("ignores readings of another window period or from the future", () => {
+    const earlier = { at: new Date("2026-10-19T09:30:00.000Z"), usedPercent: 45 };
+    const otherPeriod = { ...earlier, resetAt: new Date("2026-10-19T08:00:00.000Z") };
+    expect(forecastWindow(fiveHour(65), otherPeriod, readingAt)).toBeNull();
+    expect(forecastWindow(fiveHour(65), { ...earlier, resetAt }, earlier.at)).toBeNull();
+  });
+});
+
+describe("formatWindowsForecast", () => {
+  const now = new Date("2026-10-19T10:00:00.000Z");
+
+  it("describes the window that runs out first", () => {
+    const windows: QuotaWindow[] = [
+      {
+        ...fiveHour(65),
+        burnRatePercentPerHour: 30,
+        projectedExhaustionAt: new Date("2026-10-19T11:10:00.000Z"),
+        willExhaustBeforeReset: true
+      },
+      {
+        ...fiveHour(20),
+        id: "seven_day",
+        burnRatePercentPerHour: 1,
+        projectedExhaustionAt: new Date("2026-10-22T10:00:00.000Z"),
+        willExhaustBeforeReset: false
+      }
+    ];
+    expect(formatWindowsForecast(windows, now)).toBe("100% in 1h 10m, before reset");
+    expect(formatWindowsForecast([windows[1]!], now)).toBe("lasts until reset");
+    expect(formatWindowsForecast([fiveHour(65)], now)).toBeNull();
+    expect(
+      formatWindowsForecast(
+        [
+          {
+            ...fiveHour(10),
+            burnRatePercentPerHour: 0,
+            projectedExhaustionAt: null,
+            willExhaustBeforeReset: false
+          }
+        ],
+        now
+      )
+    ).toBe("idle");
+  });
+});
+
+describe("forecastQuotaResults", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "ai-quota-forecast-"));
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("measures the burn rate against the oldest reading within the lookback", async () => {
+    for (const [at, used] of [
+      ["2026-10-19T08:00:00.000Z", 5],
+      ["2026-10-19T09:30:00.000Z", 45],
+      ["2026-10-19T09:45:00.000Z", 60]
+    ] as const) {
+      await recordQuotaHistory({ claude: okResult(new Date(at), [fiveHour(used)]) }, { dir });
+    }
+
+    const forecasted = forecastQuotaResults(
+      {
+        claude: okResult(new Date("2026-10-19T10:00:00.000Z"), [fiveHour(65)]),
+        "claude:work": okResult(new Date("2026-10-19T10:00:00.000Z"), [fiveHour(65)])
+      },
+      { history: { dir }, lookbackMinutes: 60 }
+    );
+
+    expect(forecasted.claude!.windows[0]).toMatchObject({
+      burnRatePercentPerHour: 40,
+      willExhaustBeforeReset: true
+    });
+    expect(forecasted["claude:work"]!.windows[0]!.burnRatePercentPerHour).toBeUndefined();
+  });
+
+  it("forecasts from two consecutive fetchAllRateLimits calls", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    try {
+      vi.setSystemTime(new Date("2026-10-19T09:30:00.000Z"));
+      const spy = vi.spyOn(claude, "fetchClaudeRateLimits").mockResolvedValue({
+        five_hour: { utilization: 45, resets_at: resetAt.toISOString() },
+        seven_day: null,
+        seven_day_sonnet: null,
+        extra_usage: null
+      });
+      const first = await fetchAllRateLimits({
+        agents: ["claude"],
+        forecast: { history: { dir } }
+      });
+
+      vi.setSystemTime(new Date("2026-10-19T10:00:00.000Z"));
+      spy.mockResolvedValue({
+        five_hour: { utilization: 65, resets_at: resetAt.toISOString() },
+        seven_day: null,
+        seven_day_sonnet: null,
+        extra_usage: null
+      });
+      const second = await fetchAllRateLimits({
+        agents: ["claude"],
+        forecast: { history: { dir } }
+      });
+
+      expect(first.claude.windows[0]!.projectedExhaustionAt).toBeUndefined();
+      expect(second.claude.windows[0]).toMatchObject({
+        burnRatePercentPerHour: 40,
+        projectedExhaustionAt: new Date("2026-10-19T10:52:30.000Z"),
+        willExhaustBeforeReset: true
+      });
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+});
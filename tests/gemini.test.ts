@@ -2,7 +2,11 @@ import { describe, expect, it, vi, beforeEach, afterEach } from "vitest";
 import fs from "node:fs";
 import os from "node:os";
 import path from "node:path";
-import { fetchGeminiRateLimits } from "../src/gemini.js";
+import {
+  fetchGeminiRateLimits,
+  findGeminiCliOauthClientInfo,
+  geminiUsageToWindows
+} from "../src/gemini.js";
 
 describe("fetchGeminiRateLimits", () => {
   let tmpDir: string;
@@ -14,10 +18,14 @@ describe("fetchGeminiRateLimits", () => {
     const geminiDir = path.join(tmpDir, ".gemini");
     fs.mkdirSync(geminiDir, { recursive: true });
     credsPath = path.join(geminiDir, "oauth_creds.json");
+    vi.stubEnv("AI_QUOTA_CACHE_DIR", path.join(tmpDir, "cache"));
+    vi.stubEnv("GOOGLE_CLOUD_PROJECT", "");
+    vi.stubEnv("GOOGLE_CLOUD_PROJECT_ID", "");
   });
 
   afterEach(() => {
     vi.restoreAllMocks();
+    vi.unstubAllEnvs();
     fs.rmSync(tmpDir, { recursive: true, force: true });
   });
 
@@ -28,6 +36,25 @@ describe("fetchGeminiRateLimits", () => {
     });
   });
 
+  it("reads credentials from GEMINI_CLI_HOME and from an explicit configDir", async () => {
+    const customHome = path.join(tmpDir, "job-home");
+    fs.mkdirSync(path.join(customHome, ".gemini"), { recursive: true });
+    fs.writeFileSync(
+      path.join(customHome, ".gemini", "oauth_creds.json"),
+      JSON.stringify({ access_token: "", expiry_date: Date.now() - 1000 })
+    );
+
+    process.env.GEMINI_CLI_HOME = customHome;
+    try {
+      await expect(fetchGeminiRateLimits(1000)).rejects.toMatchObject({ reason: "token_expired" });
+    } finally {
+      delete process.env.GEMINI_CLI_HOME;
+    }
+    await expect(
+      fetchGeminiRateLimits(1000, { configDir: path.join(customHome, ".gemini") })
+    ).rejects.toMatchObject({ reason: "token_expired" });
+  });
+
   it("throws token_expired when access token is expired and no refresh token", async () => {
     fs.writeFileSync(
       credsPath,
@@ -95,6 +122,263 @@ describe("fetchGeminiRateLimits", () => {
     expect(result["gemini-3-flash-preview"]?.usage).toBeCloseTo(10, 5);
   });
 
+  describe("Code Assist project", () => {
+    const jsonResponse = (body: unknown, status = 200) => ({
+      ok: status === 200,
+      status,
+      statusText: status === 200 ? "OK" : "Forbidden",
+      text: async () => JSON.stringify(body)
+    });
+    const quotaResponse = jsonResponse({
+      buckets: [{ modelId: "gemini-2.5-pro", remainingFraction: 0.5, resetTime: "2026-02-08T00:00:00Z" }]
+    });
+
+    beforeEach(() => {
+      fs.writeFileSync(
+        credsPath,
+        JSON.stringify({
+          access_token: "ya29.valid-token",
+          refresh_token: "1//refresh",
+          expiry_date: Date.now() + 3600_000
+        })
+      );
+    });
+
+    it("uses GOOGLE_CLOUD_PROJECT without calling loadCodeAssist", async () => {
+      vi.stubEnv("GOOGLE_CLOUD_PROJECT", "my-enterprise-project");
+      const fetchMock = vi.fn().mockResolvedValueOnce(quotaResponse);
+      vi.stubGlobal("fetch", fetchMock);
+
+      await fetchGeminiRateLimits(1000);
+
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+      expect(fetchMock.mock.calls[0]![0]).toContain("retrieveUserQuota");
+      expect(JSON.parse(fetchMock.mock.calls[0]![1].body)).toEqual({ project: "my-enterprise-project" });
+    });
+
+    it("prefers the explicit project option over GOOGLE_CLOUD_PROJECT", async () => {
+      vi.stubEnv("GOOGLE_CLOUD_PROJECT", "env-project");
+      const fetchMock = vi.fn().mockResolvedValueOnce(quotaResponse);
+      vi.stubGlobal("fetch", fetchMock);
+
+      await fetchGeminiRateLimits(1000, { project: "option-project" });
+
+      expect(JSON.parse(fetchMock.mock.calls[0]![1].body)).toEqual({ project: "option-project" });
+    });
+
+    it("caches the loadCodeAssist project so later calls make a single request", async () => {
+      const fetchMock = vi
+        .fn()
+        .mockResolvedValueOnce(jsonResponse({ cloudaicompanionProject: "projects/cached" }))
+        .mockResolvedValueOnce(quotaResponse)
+        .mockResolvedValueOnce(quotaResponse);
+      vi.stubGlobal("fetch", fetchMock);
+
+      await fetchGeminiRateLimits(1000);
+      await fetchGeminiRateLimits(1000);
+
+      expect(fetchMock).toHaveBeenCalledTimes(3);
+      expect(fetchMock.mock.calls[2]![0]).toContain("retrieveUserQuota");
+      expect(JSON.parse(fetchMock.mock.calls[2]![1].body)).toEqual({ project: "projects/cached" });
+    });
+
+    it("reports the Code Assist tier, also from the cache", async () => {
+      const fetchMock = vi
+        .fn()
+        .mockResolvedValueOnce(
+          jsonResponse({
+            cloudaicompanionProject: "projects/p",
+            currentTier: { id: "free-tier" },
+            paidTier: { id: "g1-pro-tier" }
+          })
+        )
+        .mockResolvedValueOnce(quotaResponse)
+        .mockResolvedValueOnce(quotaResponse);
+      vi.stubGlobal("fetch", fetchMock);
+
+      const plans: (string | null)[] = [];
+      const planSink = (plan: string | null) => plans.push(plan);
+      await fetchGeminiRateLimits(1000, { planSink });
+      await fetchGeminiRateLimits(1000, { planSink });
+
+      expect(plans).toEqual(["g1-pro", "g1-pro"]);
+      expect(fetchMock).toHaveBeenCalledTimes(3);
+    });
+
+    it("looks the project up again when the cached one is rejected", async () => {
+      const fetchMock = vi
+        .fn()
+        .mockResolvedValueOnce(jsonResponse({ cloudaicompanionProject: "projects/old" }))
+        .mockResolvedValueOnce(quotaResponse)
+        .mockResolvedValueOnce(jsonResponse({}, 403))
+        .mockResolvedValueOnce(jsonResponse({ cloudaicompanionProject: "projects/new" }))
+        .mockResolvedValueOnce(quotaResponse);
+      vi.stubGlobal("fetch", fetchMock);
+
+      await fetchGeminiRateLimits(1000);
+      const usage = await fetchGeminiRateLimits(1000);
+
+      expect(usage["gemini-2.5-pro"]?.usage).toBeCloseTo(50, 5);
+      expect(JSON.parse(fetchMock.mock.calls[4]![1].body)).toEqual({ project: "projects/new" });
+    });
+  });
+
+  it("keeps every quota bucket with its token type and remaining amount", async () => {
+    fs.writeFileSync(
+      credsPath,
+      JSON.stringify({ access_token: "ya29.valid-token", expiry_date: Date.now() + 3600_000 })
+    );
+
+    vi.stubGlobal(
+      "fetch",
+      vi
+        .fn()
+        .mockResolvedValueOnce({
+          ok: true,
+          status: 200,
+          statusText: "OK",
+          text: async () => JSON.stringify({ cloudaicompanionProject: "projects/test-project" })
+        })
+        .mockResolvedValueOnce({
+          ok: true,
+          status: 200,
+          statusText: "OK",
+          text: async () =>
+            JSON.stringify({
+              buckets: [
+                {
+                  modelId: "gemini-2.5-pro",
+                  tokenType: "REQUESTS",
+                  remainingAmount: "60",
+                  remainingFraction: 0.6,
+                  resetTime: "2026-02-08T00:00:00Z"
+                },
+                {
+                  modelId: "gemini-3-pro-preview",
+                  tokenType: "REQUESTS",
+                  remainingFraction: 0.2,
+                  resetTime: "2026-02-08T00:00:00Z"
+                },
+                {
+                  modelId: "gemini-2.5-flash-lite",
+                  tokenType: "REQUESTS",
+                  remainingFraction: 1,
+                  resetTime: "2026-02-08T00:00:00Z"
+                },
+                {
+                  modelId: "gemini-2.5-pro",
+                  tokenType: "INPUT_TOKENS",
+                  remainingAmount: "250000",
+                  remainingFraction: 0.5,
+                  resetTime: "2026-02-08T00:00:00Z"
+                }
+              ]
+            })
+        })
+    );
+
+    const result = await fetchGeminiRateLimits(1000);
+    expect(Object.keys(result)).toEqual([
+      "gemini-2.5-pro",
+      "gemini-3-pro-preview",
+      "gemini-2.5-flash-lite",
+      "gemini-2.5-pro/INPUT_TOKENS"
+    ]);
+    expect(result["gemini-2.5-pro"]).toMatchObject({ tokenType: "REQUESTS", remainingAmount: 60 });
+    expect(result["gemini-2.5-pro/INPUT_TOKENS"]).toMatchObject({
+      modelId: "gemini-2.5-pro",
+      tokenType: "INPUT_TOKENS",
+      remainingAmount: 250000
+    });
+    expect(result["gemini-3-pro-preview"]?.remainingAmount).toBeUndefined();
+    expect(geminiUsageToWindows(result).map((w) => w.scope)).toEqual(["pro", "pro", "flash", "pro"]);
+    expect(geminiUsageToWindows(result).map((w) => [w.remaining, w.limit])).toEqual([
+      [60, 100],
+      [undefined, undefined],
+      [undefined, undefined],
+      [250000, 500000]
+    ]);
+  });
+
+  it("keys repeated and missing token types uniquely", async () => {
+    fs.writeFileSync(
+      credsPath,
+      JSON.stringify({ access_token: "ya29.valid-token", expiry_date: Date.now() + 3600_000 })
+    );
+    const bucket = (tokenType: string | undefined, remainingFraction: number) => ({
+      modelId: "gemini-2.5-pro",
+      tokenType,
+      remainingFraction,
+      resetTime: "2026-02-08T00:00:00Z"
+    });
+
+    vi.stubGlobal(
+      "fetch",
+      vi
+        .fn()
+        .mockResolvedValueOnce({
+          ok: true,
+          status: 200,
+          statusText: "OK",
+          text: async () => JSON.stringify({ cloudaicompanionProject: "projects/test-project" })
+        })
+        .mockResolvedValueOnce({
+          ok: true,
+          status: 200,
+          statusText: "OK",
+          text: async () =>
+            JSON.stringify({
+              buckets: [
+                bucket("REQUESTS", 0.9),
+                bucket("INPUT_TOKENS", 0.8),
+                bucket("INPUT_TOKENS", 0.7),
+                bucket(undefined, 0.6),
+                bucket(undefined, 0.5)
+              ]
+            })
+        })
+    );
+
+    const result = await fetchGeminiRateLimits(1000);
+    expect(Object.keys(result)).toEqual([
+      "gemini-2.5-pro",
+      "gemini-2.5-pro/INPUT_TOKENS",
+      "gemini-2.5-pro/INPUT_TOKENS#2",
+      "gemini-2.5-pro#2",
+      "gemini-2.5-pro#3"
+    ]);
+    expect(Object.values(result).map((u) => u?.usage)).toEqual([10, 20, 30, 40, 50]);
+  });
+
+  it("reports the signed-in Google account from the id_token", async () => {
+    const claims = { email: "jane@acme.dev", hd: "acme.dev", sub: "1234567890" };
+    fs.writeFileSync(
+      credsPath,
+      JSON.stringify({
+        access_token: "ya29.valid-token",
+        expiry_date: Date.now() + 3600_000,
+        id_token: `header.${Buffer.from(JSON.stringify(claims)).toString("base64url")}.sig`
+      })
+    );
+    vi.stubEnv("GOOGLE_CLOUD_PROJECT", "my-project");
+    vi.stubGlobal(
+      "fetch",
+      vi.fn().mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        statusText: "OK",
+        text: async () => JSON.stringify({ buckets: [] })
+      })
+    );
+
+    const accounts: unknown[] = [];
+    await fetchGeminiRateLimits(1000, { accountSink: (account) => accounts.push(account) });
+
+    expect(accounts).toEqual([
+      { email: "jane@acme.dev", login: null, organization: "acme.dev", accountId: "1234567890" }
+    ]);
+  });
+
   it("throws auth_failed when loadCodeAssist fails with 403", async () => {
     const futureExpiry = Date.now() + 3600_000;
     fs.writeFileSync(credsPath, JSON.stringify({ access_token: "ya29.valid-token", expiry_date: futureExpiry }));
@@ -116,3 +400,57 @@ describe("fetchGeminiRateLimits", () => {
   });
 });
 
+describe("findGeminiCliOauthClientInfo", () => {
+  const originalEnv = process.env;
+  let tmpDir: string;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "ai-quota-gemini-cli-"));
+    process.env = { ...originalEnv, PATH: "", HOME: tmpDir, USERPROFILE: tmpDir };
+    delete process.env.npm_config_prefix;
+    delete process.env.NPM_CONFIG_PREFIX;
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it.skipIf(process.platform === "win32")("reads the constants from an nvm-installed Gemini CLI", () => {
+    process.env.NVM_DIR = path.join(tmpDir, "nvm");
+    const oauth2Dir = path.join(
+      tmpDir,
+      "nvm/versions/node/v22.1.0/lib/node_modules/@google/gemini-cli-core/dist/src/code_assist"
+    );
+    fs.mkdirSync(oauth2Dir, { recursive: true });
+    fs.writeFileSync(
+      path.join(oauth2Dir, "oauth2.js"),
+      "const OAUTH_CLIENT_ID = 'nvm-id';\nconst OAUTH_CLIENT_SECRET = 'nvm-secret';\n"
+    );
+
+    expect(findGeminiCliOauthClientInfo()).toEqual({
+      clientId: "nvm-id",
+      clientSecret: "nvm-secret",
+      source: path.join(oauth2Dir, "oauth2.js")
+    });
+  });
+
+  it.skipIf(process.platform === "win32")("follows the gemini executable on PATH to its bundle", () => {
+    const packageDir = path.join(tmpDir, "prefix/lib/node_modules/@google/gemini-cli");
+    fs.mkdirSync(path.join(packageDir, "bundle"), { recursive: true });
+    fs.writeFileSync(path.join(packageDir, "package.json"), JSON.stringify({ name: "@google/gemini-cli" }));
+    fs.writeFileSync(
+      path.join(packageDir, "bundle", "gemini.js"),
+      'var OAUTH_CLIENT_ID = "bundle-id";\nvar OAUTH_CLIENT_SECRET = "bundle-secret";\n'
+    );
+    const binDir = path.join(tmpDir, "bin");
+    fs.mkdirSync(binDir);
+    fs.symlinkSync(path.join(packageDir, "bundle", "gemini.js"), path.join(binDir, "gemini"));
+    process.env.PATH = binDir;
+
+    expect(findGeminiCliOauthClientInfo()).toMatchObject({
+      clientId: "bundle-id",
+      clientSecret: "bundle-secret"
+    });
+  });
+});
@@ -0,0 +1,174 @@
+import { describe, expect, it, beforeEach, afterEach } from "vitest";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import {
+  compactQuotaHistory,
+  formatHistoryCsv,
+  formatHistoryTable,
+  parseHistorySince,
+  readQuotaHistory,
+  recordQuotaHistory
+} from "../src/history.js";
+import type { QuotaResult } from "../src/types.js";
+
+function okResult(fetchedAt: Date, usedPercent: number): QuotaResult<unknown> {
+  return {
+    status: "ok",
+    reason: null,
+    error: null,
+    data: {},
+    display: `${usedPercent}% used`,
+    windows: [
+      {
+        id: "premium_interactions",
+        label: "premium",
+        usedPercent,
+        resetAt: new Date("2026-11-01T00:00:00.000Z"),
+        windowDurationMs: null,
+        scope: null,
+        remaining: 300 - usedPercent * 3,
+        limit: 300
+      }
+    ],
+    fetchedAt,
+    fromCache: false
+  };
+}
+
+describe("quota history", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "ai-quota-history-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("records freshly fetched windows and reads them back per agent", async () => {
+    const at = new Date("2026-10-19T10:00:00.000Z");
+    await recordQuotaHistory(
+      {
+        copilot: okResult(at, 10),
+        "copilot:work": okResult(at, 20),
+        claude: { ...okResult(at, 30), fromCache: true },
+        codex: { ...okResult(at, 40), stale: true },
+        gemini: {
+          status: "error",
+          reason: "timeout",
+          error: "timed out",
+          data: null,
+          display: "error",
+          windows: []
+        }
+      },
+      { dir }
+    );
+    await recordQuotaHistory(
+      { copilot: okResult(new Date("2026-10-19T11:00:00.000Z"), 15) },
+      { dir }
+    );
+
+    expect(readQuotaHistory({ dir }).map((r) => r.agent)).toEqual([
+      "copilot",
+      "copilot:work",
+      "copilot"
+    ]);
+    expect(readQuotaHistory({ dir, agent: "copilot:work" })).toEqual([
+      {
+        at,
+        agent: "copilot:work",
+        window: "premium_interactions",
+        label: "premium",
+        usedPercent: 20,
+        resetAt: new Date("2026-11-01T00:00:00.000Z"),
+        remaining: 240,
+        limit: 300
+      }
+    ]);
+    expect(
+      readQuotaHistory({ dir, since: new Date("2026-10-19T10:30:00.000Z") }).map(
+        (r) => r.usedPercent
+      )
+    ).toEqual([15]);
+  });
+
+  it("drops expired records and merges close ones on compaction", async () => {
+    const results = [
+      ["2026-09-01T10:00:00.000Z", 5],
+      ["2026-10-19T10:00:00.000Z", 10],
+      ["2026-10-19T10:05:00.000Z", 12],
+      ["2026-10-19T10:20:00.000Z", 14]
+    ] as const;
+    for (const [at, used] of results) {
+      await recordQuotaHistory({ copilot: okResult(new Date(at), used) }, { dir });
+    }
+    fs.appendFileSync(path.join(dir, "history.jsonl"), "not json\n");
+
+    const kept = await compactQuotaHistory(
+      { dir, retentionDays: 30, resolutionSeconds: 900 },
+      new Date("2026-10-19T12:00:00.000Z")
+    );
+
+    expect(kept).toBe(2);
+    expect(readQuotaHistory({ dir }).map((r) => r.usedPercent)).toEqual([12, 14]);
+  });
+
+  it("compacts automatically once the store grows past compactBytes", async () => {
+    await recordQuotaHistory(
+      { copilot: okResult(new Date("2000-01-01T00:00:00.000Z"), 10) },
+      { dir }
+    );
+    await recordQuotaHistory({ copilot: okResult(new Date(), 20) }, { dir, compactBytes: 1 });
+
+    expect(readQuotaHistory({ dir }).map((r) => r.usedPercent)).toEqual([20]);
+  });
+
+  it("parses durations and dates for --since", () => {
+    const now = new Date("2026-10-19T10:00:00.000Z");
+    expect(parseHistorySince("7d", now)).toEqual(new Date("2026-10-12T10:00:00.000Z"));
+    expect(parseHistorySince("12h", now)).toEqual(new Date("2026-10-18T22:00:00.000Z"));
+    expect(parseHistorySince("30m", now)).toEqual(new Date("2026-10-19T09:30:00.000Z"));
+    expect(parseHistorySince("2026-10-01", now)).toEqual(new Date("2026-10-01T00:00:00.000Z"));
+    expect(parseHistorySince("soon", now)).toBeNull();
+  });
+
+  it("formats records as a table and as CSV", () => {
+    const records = [
+      {
+        at: new Date("2026-10-19T10:00:00.000Z"),
+        agent: "copilot",
+        window: "premium_interactions",
+        label: "premium, monthly",
+        usedPercent: 72,
+        resetAt: new Date("2026-11-01T00:00:00.000Z"),
+        remaining: 84,
+        limit: 300
+      },
+      {
+        at: new Date("2026-10-19T10:15:00.000Z"),
+        agent: "claude",
+        window: "five_hour",
+        label: "5h",
+        usedPercent: 8.4,
+        resetAt: null,
+        remaining: null,
+        limit: null
+      }
+    ];
+
+    expect(formatHistoryTable(records).split("\n")).toEqual([
+      "TIME (UTC)        AGENT    WINDOW                USED  REMAINING  RESETS          ",
+      "----------------  -------  --------------------  ----  ---------  ----------------",
+      "2026-10-19 10:00  copilot  premium_interactions  72%   84/300     2026-11-01 00:00",
+      "2026-10-19 10:15  claude   five_hour             8%    -          -"
+    ]);
+    expect(formatHistoryCsv(records).split("\n")).toEqual([
+      "at,agent,window,label,used_percent,remaining,limit,reset_at",
+      '2026-10-19T10:00:00.000Z,copilot,premium_interactions,"premium, monthly",72,84,300,2026-11-01T00:00:00.000Z',
+      "2026-10-19T10:15:00.000Z,claude,five_hour,5h,8.4,,,"
+    ]);
+  });
+});
@@ -1,14 +1,18 @@
 import { describe, expect, it } from "vitest";
 import type { AllRateLimits } from "../src/types.js";
-import { buildHumanRows, formatHumanTable } from "../src/human-output.js";
+import {
+  buildHumanRows,
+  deriveStatusFromUsedPercent,
+  formatHumanTable
+} from "../src/human-output.js";
 
 function makeEmptyResults(): AllRateLimits {
   return {
     summary: { status: "healthy", message: "ok" },
-    claude: { status: "no-data", data: null, reason: "no_credentials", error: null, display: "no data" },
-    gemini: { status: "no-data", data: null, reason: "no_credentials", error: null, display: "no data" },
-    copilot: { status: "no-data", data: null, reason: "no_credentials", error: null, display: "no data" },
-    codex: { status: "no-data", data: null, reason: "no_credentials", error: null, display: "no data" }
+    claude: { status: "no-data", data: null, reason: "no_credentials", error: null, display: "no data", windows: [] },
+    gemini: { status: "no-data", data: null, reason: "no_credentials", error: null, display: "no data", windows: [] },
+    copilot: { status: "no-data", data: null, reason: "no_credentials", error: null, display: "no data", windows: [] },
+    codex: { status: "no-data", data: null, reason: "no_credentials", error: null, display: "no data", windows: [] }
   };
 }
 
@@ -22,6 +26,7 @@ describe("human output", () => {
       reason: null,
       error: null,
       display: "ignored",
+      windows: [],
       data: {
         primary: {
           used_percent: 0,
@@ -54,6 +59,53 @@ describe("human output", () => {
     expect(table).toContain("WAIT_RESET");
   });
 
+  it("adds the Codex credit balance and one row per additional limit", () => {
+    const now = new Date("2026-02-19T10:00:00Z");
+    const resetsAt = (iso: string) => Math.floor(new Date(iso).getTime() / 1000);
+
+    const all = makeEmptyResults();
+    all.codex = {
+      status: "ok",
+      reason: null,
+      error: null,
+      display: "ignored",
+      windows: [],
+      data: {
+        primary: {
+          used_percent: 10,
+          windowDurationMins: 300,
+          resetsAt: resetsAt("2026-02-19T12:00:00Z")
+        },
+        additionalLimits: {
+          code_review: {
+            primary: {
+              used_percent: 90,
+              windowDurationMins: 10080,
+              resetsAt: resetsAt("2026-02-20T10:00:00Z")
+            }
+          }
+        },
+        credits: { has_credits: true, unlimited: false, balance: "40" }
+      }
+    };
+
+    const rows = buildHumanRows(all, { agents: ["codex"], now });
+    expect(rows).toEqual([
+      {
+        agent: "codex",
+        status: "CAN_USE",
+        limit: "5h",
+        details: "5h: 10% used (reset in 2h), credits: 40"
+      },
+      {
+        agent: "codex/code-review",
+        status: "LOW_QUOTA",
+        limit: "7d",
+        details: "7d: 90% used (reset in 1d)"
+      }
+    ]);
+  });
+
   it("claude with both 7d buckets labels all models vs sonnet only (stable tie-break)", () => {
     const now = new Date("2026-02-19T10:00:00Z");
 
@@ -63,6 +115,7 @@ describe("human output", () => {
       reason: null,
       error: null,
       display: "ignored",
+      windows: [],
       data: {
         five_hour: { utilization: 10, resets_at: "2026-02-19T12:00:00Z" },
         seven_day: { utilization: 50, resets_at: "2026-02-25T10:00:00Z" },
@@ -79,6 +132,99 @@ describe("human output", () => {
     expect(rows[0]!.details.indexOf("(all models)")).toBeLessThan(rows[0]!.details.indexOf("(sonnet only)"));
   });
 
+  it("shows Claude extra-usage spend and warns when most of it is used", () => {
+    const now = new Date("2026-02-19T10:00:00Z");
+    const all = makeEmptyResults();
+    const claudeResult = (usedCredits: number): AllRateLimits["claude"] => ({
+      status: "ok",
+      reason: null,
+      error: null,
+      display: "ignored",
+      windows: [],
+      data: {
+        five_hour: { utilization: 10, resets_at: "2026-02-19T12:00:00Z" },
+        seven_day: null,
+        seven_day_sonnet: null,
+        extra_usage: {
+          is_enabled: true,
+          monthly_limit: 5000,
+          used_credits: usedCredits,
+          utilization: (usedCredits / 5000) * 100
+        }
+      }
+    });
+
+    all.claude = claudeResult(1000);
+    expect(buildHumanRows(all, { agents: ["claude"], now })[0]).toEqual({
+      agent: "claude",
+      status: "CAN_USE",
+      limit: "5h",
+      details: "5h: 10% used (reset in 2h), extra usage: $10.00 / $50.00 (20% used)"
+    });
+
+    all.claude = claudeResult(4500);
+    expect(buildHumanRows(all, { agents: ["claude"], now })[0]).toMatchObject({
+      status: "LOW_QUOTA",
+      limit: "extra",
+      details: "5h: 10% used (reset in 2h), extra usage: $45.00 / $50.00 (90% used)"
+    });
+
+    // The warning keeps the forecast of the plan windows
+    all.claude = {
+      ...claudeResult(4500),
+      windows: [
+        {
+          id: "five_hour",
+          label: "5h",
+          usedPercent: 10,
+          resetAt: new Date("2026-02-19T12:00:00Z"),
+          windowDurationMs: 5 * 60 * 60 * 1000,
+          scope: null,
+          burnRatePercentPerHour: 0,
+          projectedExhaustionAt: null,
+          willExhaustBeforeReset: false
+        }
+      ]
+    };
+    expect(buildHumanRows(all, { agents: ["claude"], now, showForecast: true })[0]).toMatchObject({
+      status: "LOW_QUOTA",
+      limit: "extra",
+      forecast: "idle"
+    });
+  });
+
+  it("labels Claude buckets beyond the named fields generically", () => {
+    const now = new Date("2026-02-19T10:00:00Z");
+    const all = makeEmptyResults();
+    const fiveHour = { utilization: 10, resets_at: "2026-02-19T12:00:00Z" };
+    const sevenDay = { utilization: 30, resets_at: "2026-02-25T10:00:00Z" };
+    all.claude = {
+      status: "ok",
+      reason: null,
+      error: null,
+      display: "ignored",
+      windows: [],
+      data: {
+        five_hour: fiveHour,
+        seven_day: sevenDay,
+        seven_day_sonnet: null,
+        buckets: {
+          five_hour: fiveHour,
+          seven_day: sevenDay,
+          seven_day_opus: { utilization: 85, resets_at: "2026-02-25T10:00:00Z" }
+        },
+        extra_usage: null
+      }
+    };
+
+    const rows = buildHumanRows(all, { agents: ["claude"], now });
+    expect(rows[0]).toMatchObject({ status: "LOW_QUOTA", limit: "7d" });
+    expect(rows[0]?.details).toBe(
+      "7d: 85% used (reset in 6d) (opus only), 7d: 30% used (reset in 6d) (all models), " +
+        "5h: 10% used (reset in 2h)"
+    );
+  });
+
   it("claude with only all-models 7d keeps legacy details (no suffix)", () => {
     const now = new Date("2026-02-19T10:00:00Z");
 
@@ -88,6 +234,7 @@ describe("human output", () => {
       reason: null,
       error: null,
       display: "ignored",
+      windows: [],
       data: {
         five_hour: { utilization: 10, resets_at: "2026-02-19T12:00:00Z" },
         seven_day: { utilization: 22, resets_at: "2026-02-25T10:00:00Z" },
@@ -102,4 +249,378 @@ describe("human output", () => {
     expect(rows[0]?.details).not.toContain("all models");
     expect(rows[0]?.details).not.toContain("sonnet only");
   });
+
+  it("names rows after account keys", () => {
+    const now = new Date("2026-02-19T10:00:00Z");
+
+    const all = makeEmptyResults();
+    all["claude:work"] = {
+      status: "ok",
+      reason: null,
+      error: null,
+      display: "ignored",
+      windows: [],
+      data: {
+        five_hour: { utilization: 85, resets_at: "2026-02-19T12:00:00Z" },
+        seven_day: null,
+        seven_day_sonnet: null,
+        extra_usage: null
+      }
+    };
+    all["gemini:work"] = {
+      status: "ok",
+      reason: null,
+      error: null,
+      display: "ignored",
+      windows: [],
+      data: {
+        "gemini-3-pro-preview": { limit: 100, usage: 4, resetAt: new Date("2026-02-20T00:00:00Z") }
+      }
+    };
+
+    const rows = buildHumanRows(all, { agents: ["claude:work", "gemini:work"], now });
+    expect(rows.map((r) => r.agent)).toEqual(["claude:work", "gemini:work/pro"]);
+    expect(rows[0]?.status).toBe("LOW_QUOTA");
+  });
+
+  it("shows the plan in its own column", () => {
+    const now = new Date("2026-02-19T10:00:00Z");
+    const all = makeEmptyResults();
+    all.claude = {
+      status: "ok",
+      reason: null,
+      error: null,
+      display: "ignored",
+      windows: [],
+      plan: "max 20x",
+      data: {
+        five_hour: { utilization: 10, resets_at: "2026-02-19T12:00:00Z" },
+        seven_day: null,
+        seven_day_sonnet: null,
+        extra_usage: null
+      }
+    };
+
+    const rows = buildHumanRows(all, { agents: ["claude", "codex"], now });
+    expect(rows.map((r) => r.plan)).toEqual(["max 20x", undefined]);
+
+    const lines = formatHumanTable(rows).split("\n");
+    expect(lines[0]).toMatch(/^AGENT\s+STATUS\s+PLAN\s+LIMIT\s+DETAILS/);
+    expect(lines[2]).toMatch(/^claude\s+CAN_USE\s+max 20x\s+5h\s+5h: 10% used/);
+    expect(lines[3]).toMatch(/^codex\s+LOGIN_REQUIRED\s+-\s+-\s+login required/);
+  });
+
+  it("adds an ACCOUNT column when accounts are shown", () => {
+    const now = new Date("2026-02-19T10:00:00Z");
+    const all = makeEmptyResults();
+    all.claude = {
+      status: "ok",
+      reason: null,
+      error: null,
+      display: "ignored",
+      windows: [],
+      account: { email: "jane@example.com", login: null, organization: "Acme", accountId: null },
+      data: {
+        five_hour: { utilization: 10, resets_at: "2026-02-19T12:00:00Z" },
+        seven_day: null,
+        seven_day_sonnet: null,
+        extra_usage: null
+      }
+    };
+
+    expect(buildHumanRows(all, { agents: ["claude"], now })[0]?.account).toBeUndefined();
+
+    const rows = buildHumanRows(all, { agents: ["claude", "codex"], now, showAccount: true });
+    expect(rows.map((r) => r.account)).toEqual(["jane@example.com (Acme)", "-"]);
+
+    const lines = formatHumanTable(rows).split("\n");
+    expect(lines[0]).toMatch(/^AGENT\s+STATUS\s+PLAN\s+ACCOUNT\s+LIMIT\s+DETAILS/);
+    expect(lines[2]).toMatch(
+      /^claude\s+CAN_USE\s+-\s+jane@example.com \(Acme\)\s+5h\s+5h: 10% used/
+    );
+    expect(lines[3]).toMatch(/^codex\s+LOGIN_REQUIRED\s+-\s+-\s+-\s+login required/);
+  });
+
+  it("adds a REMAINING column with absolute amounts when requested", () => {
+    const now = new Date("2026-02-19T10:00:00Z");
+    const all = makeEmptyResults();
+    all.copilot = {
+      status: "ok",
+      reason: null,
+      error: null,
+      display: "ignored",
+      windows: [],
+      data: {
+        percentRemaining: 28,
+        resetAt: new Date("2026-03-01T00:00:00Z"),
+        entitlement: 300,
+        overageUsed: 0,
+        overageEnabled: false,
+        quotas: {
+          premium_interactions: {
+            id: "premium_interactions",
+            unlimited: false,
+            percentRemaining: 28,
+            entitlement: 300,
+            remaining: 84,
+            overageUsed: 0,
+            overageEnabled: false
+          }
+        },
+        source: "user",
+        raw: {}
+      }
+    };
+
+    expect(buildHumanRows(all, { agents: ["copilot"], now })[0]?.remaining).toBeUndefined();
+
+    const rows = buildHumanRows(all, { agents: ["copilot", "claude"], now, showRemaining: true });
+    expect(rows.map((r) => r.remaining)).toEqual(["84/300", "-"]);
+
+    const lines = formatHumanTable(rows).split("\n");
+    expect(lines[0]).toMatch(/^AGENT\s+STATUS\s+PLAN\s+LIMIT\s+REMAINING\s+DETAILS/);
+    expect(lines[2]).toMatch(/^copilot\s+CAN_USE\s+-\s+-\s+84\/300\s+72% used/);
+  });
+
+  it("adds a FORECAST column when forecasts are shown", () => {
+    const now = new Date("2026-02-19T10:00:00Z");
+    const all = makeEmptyResults();
+    all.claude = {
+      status: "ok",
+      reason: null,
+      error: null,
+      display: "ignored",
+      windows: [
+        {
+          id: "five_hour",
+          label: "5h",
+          usedPercent: 65,
+          resetAt: new Date("2026-02-19T13:00:00Z"),
+          windowDurationMs: 5 * 60 * 60 * 1000,
+          scope: null,
+          burnRatePercentPerHour: 30,
+          projectedExhaustionAt: new Date("2026-02-19T11:10:00Z"),
+          willExhaustBeforeReset: true
+        }
+      ],
+      data: {
+        five_hour: { utilization: 65, resets_at: "2026-02-19T13:00:00Z" },
+        seven_day: null,
+        seven_day_sonnet: null,
+        extra_usage: null
+      }
+    };
+
+    expect(buildHumanRows(all, { agents: ["claude"], now })[0]?.forecast).toBeUndefined();
+    const rows = buildHumanRows(all, { agents: ["claude", "codex"], now, showForecast: true });
+    expect(rows.map((r) => r.forecast)).toEqual(["100% in 1h 10m, before reset", "-"]);
+
+    const lines = formatHumanTable(rows).split("\n");
+    expect(lines[0]).toMatch(/^AGENT\s+STATUS\s+PLAN\s+LIMIT\s+FORECAST\s+DETAILS/);
+    expect(lines[2]).toMatch(/^claude\s+CAN_USE\s+-\s+5h\s+100% in 1h 10m, before reset\s+5h: 65%/);
+  });
+
+  it("reports usage well ahead of the elapsed window time as LOW_QUOTA with pace", () => {
+    const now = new Date("2026-02-19T10:00:00Z");
+    const all = makeEmptyResults();
+    // 60% used 30 minutes into the 5h window, 30% used 1 day into the 7d window
+    all.claude = {
+      status: "ok",
+      reason: null,
+      error: null,
+      display: "ignored",
+      windows: [],
+      data: {
+        five_hour: { utilization: 60, resets_at: "2026-02-19T14:30:00Z" },
+        seven_day: { utilization: 30, resets_at: "2026-02-25T10:00:00Z" },
+        seven_day_sonnet: null,
+        extra_usage: null
+      }
+    };
+    // 60% used 4.5 hours into the 5h window
+    all.codex = {
+      status: "ok",
+      reason: null,
+      error: null,
+      display: "ignored",
+      windows: [],
+      data: {
+        primary: {
+          used_percent: 60,
+          windowDurationMins: 300,
+          resetsAt: Math.floor(new Date("2026-02-19T10:30:00Z").getTime() / 1000)
+        }
+      }
+    };
+
+    const statuses = (pace: boolean) =>
+      buildHumanRows(all, { agents: ["claude", "codex"], now, pace }).map((r) => r.status);
+    expect(statuses(false)).toEqual(["CAN_USE", "CAN_USE"]);
+    expect(statuses(true)).toEqual(["LOW_QUOTA", "CAN_USE"]);
+  });
+
+  it("derives pace-aware statuses from the elapsed share of a window", () => {
+    expect(deriveStatusFromUsedPercent(60)).toBe("CAN_USE");
+    expect(deriveStatusFromUsedPercent(60, 10)).toBe("LOW_QUOTA");
+    expect(deriveStatusFromUsedPercent(60, 45)).toBe("CAN_USE");
+    expect(deriveStatusFromUsedPercent(60, null)).toBe("CAN_USE");
+    expect(deriveStatusFromUsedPercent(85, 100)).toBe("LOW_QUOTA");
+    expect(deriveStatusFromUsedPercent(100, 100)).toBe("WAIT_RESET");
+  });
+
+  it("marks the details of a stale result", () => {
+    const now = new Date("2026-02-19T10:00:00Z");
+    const all = makeEmptyResults();
+    all.claude = {
+      status: "ok",
+      reason: null,
+      error: null,
+      display: "ignored",
+      windows: [],
+      data: {
+        five_hour: { utilization: 10, resets_at: "2026-02-19T12:00:00Z" },
+        seven_day: null,
+        seven_day_sonnet: null,
+        extra_usage: null
+      },
+      stale: true,
+      staleAgeSeconds: 750,
+      staleError: { reason: "timeout", message: "Request timed out" }
+    };
+
+    expect(buildHumanRows(all, { agents: ["claude"], now })).toEqual([
+      {
+        agent: "claude",
+        status: "CAN_USE",
+        limit: "5h",
+        details: "STALE 12m (timeout): 5h: 10% used (reset in 2h)"
+      }
+    ]);
+  });
+
+  it("marks the details of a stale custom-provider result once", () => {
+    const all = makeEmptyResults();
+    all.custom = {
+      status: "ok",
+      reason: null,
+      error: null,
+      display: "STALE 5m (timeout): 3 of 10 builds left",
+      windows: [],
+      data: {},
+      stale: true,
+      staleAgeSeconds: 300,
+      staleError: { reason: "timeout", message: "Request timed out" }
+    };
+
+    const rows = buildHumanRows(all, { agents: ["custom"], now: new Date() });
+    expect(rows.map((r) => r.details)).toEqual(["STALE 5m (timeout): 3 of 10 builds left"]);
+  });
+
+  it("shows API-key billing as NOT_APPLICABLE", () => {
+    const all = makeEmptyResults();
+    all.codex = {
+      status: "no-data",
+      data: null,
+      reason: "not_applicable",
+      error: null,
+      display: "not applicable (API key billing)",
+      windows: []
+    };
+
+    const rows = buildHumanRows(all, { agents: ["codex"], now: new Date() });
+    expect(rows).toEqual([
+      {
+        agent: "codex",
+        status: "NOT_APPLICABLE",
+        limit: "-",
+        details: "not applicable (API key billing)"
+      }
+    ]);
+  });
+
+  it("shows the most constraining Copilot quota category", () => {
+    const now = new Date("2026-02-19T10:00:00Z");
+    const snapshot = (id: string, percentRemaining: number) => ({
+      id,
+      unlimited: false,
+      percentRemaining,
+      entitlement: 100,
+      remaining: percentRemaining,
+      overageUsed: 0,
+      overageEnabled: false
+    });
+
+    const all = makeEmptyResults();
+    all.copilot = {
+      status: "ok",
+      reason: null,
+      error: null,
+      display: "ignored",
+      windows: [],
+      data: {
+        percentRemaining: 10,
+        resetAt: new Date("2026-03-01T00:00:00Z"),
+        entitlement: 100,
+        overageUsed: 0,
+        overageEnabled: false,
+        quotas: { completions: snapshot("completions", 70), chat: snapshot("chat", 10) },
+        source: "user",
+        raw: {}
+      }
+    };
+
+    const rows = buildHumanRows(all, { agents: ["copilot"], now });
+    expect(rows).toEqual([
+      {
+        agent: "copilot",
+        status: "LOW_QUOTA",
+        limit: "chat",
+        details: "chat: 90% used, completions: 30% used (reset in 9d 14h)"
+      }
+    ]);
+  });
+
+  it("shows one Gemini row per quota bucket when requested", () => {
+    const now = new Date("2026-02-19T10:00:00Z");
+    const resetAt = new Date("2026-02-20T00:00:00Z");
+
+    const all = makeEmptyResults();
+    all.gemini = {
+      status: "ok",
+      reason: null,
+      error: null,
+      display: "ignored",
+      windows: [],
+      data: {
+        "gemini-2.5-pro": { limit: 100, usage: 40, resetAt, tokenType: "REQUESTS", remainingAmount: 60 },
+        "gemini-3-pro-preview": { limit: 100, usage: 85, resetAt },
+        "gemini-2.5-flash-lite": { limit: 100, usage: 0, resetAt }
+      }
+    };
+
+    expect(buildHumanRows(all, { agents: ["gemini"], now }).map((r) => r.agent)).toEqual([
+      "gemini/pro",
+      "gemini/flash"
+    ]);
+    expect(buildHumanRows(all, { agents: ["gemini"], now, geminiBuckets: true })).toEqual([
+      {
+        agent: "gemini/gemini-2.5-pro",
+        status: "CAN_USE",
+        limit: "pro",
+        details: "40% used, 60 requests left (reset in 14h)"
+      },
+      {
+        agent: "gemini/gemini-3-pro-preview",
+        status: "LOW_QUOTA",
+        limit: "pro",
+        details: "85% used (reset in 14h)"
+      },
+      {
+        agent: "gemini/gemini-2.5-flash-lite",
+        status: "CAN_USE",
+        limit: "flash",
+        details: "0% used (reset in 14h)"
+      }
+    ]);
+  });
 });
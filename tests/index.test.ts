@@ -1,5 +1,8 @@
 import { describe, expect, it, vi, afterEach } from "vitest";
-import { fetchAllRateLimits } from "../src/index.js";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { fetchAllRateLimits, readQuotaHistory } from "../src/index.js";
 import { QuotaFetchError } from "../src/errors.js";
 import * as claude from "../src/claude.js";
 import * as gemini from "../src/gemini.js";
@@ -22,7 +25,10 @@ describe("fetchAllRateLimits", () => {
     vi.spyOn(gemini, "fetchGeminiRateLimits").mockRejectedValue(
       new QuotaFetchError("no_credentials", "missing creds")
     );
-    vi.spyOn(copilot, "getCopilotToken").mockReturnValue("fake-token");
+    vi.spyOn(copilot, "discoverCopilotToken").mockReturnValue({
+      token: "fake-token",
+      source: { kind: "env", location: "GITHUB_TOKEN" }
+    });
     vi.spyOn(copilot, "fetchCopilotRateLimits").mockRejectedValue(
       new QuotaFetchError("api_error", "API Down")
     );
@@ -41,8 +47,127 @@ describe("fetchAllRateLimits", () => {
     expect(result.codex.reason).toBe("no_credentials");
   });
 
+  it("reports API-key billing as not applicable rather than a failure", async () => {
+    vi.spyOn(codex, "fetchCodexRateLimits").mockRejectedValue(
+      new QuotaFetchError("not_applicable", "API key billing")
+    );
+
+    const result = await fetchAllRateLimits({ agents: ["codex"] });
+    expect(result.codex.status).toBe("no-data");
+    expect(result.codex.reason).toBe("not_applicable");
+    expect(result.codex.display).toBe("not applicable (API key billing)");
+    expect(result.summary.status).toBe("healthy");
+  });
+
+  it("reports each agent's plan", async () => {
+    vi.spyOn(claude, "fetchClaudeRateLimits").mockResolvedValue({
+      five_hour: { utilization: 10, resets_at: new Date().toISOString() },
+      seven_day: null,
+      seven_day_sonnet: null,
+      extra_usage: null,
+      subscriptionType: "pro",
+      rateLimitTier: "default_claude_ai"
+    });
+    vi.spyOn(gemini, "fetchGeminiRateLimits").mockImplementation(async (_timeout, options) => {
+      options?.planSink?.("standard");
+      return { "gemini-2.5-pro": { limit: 100, usage: 5, resetAt: new Date() } };
+    });
+    vi.spyOn(codex, "fetchCodexRateLimits").mockRejectedValue(
+      new QuotaFetchError("no_credentials", "missing auth.json")
+    );
+
+    const result = await fetchAllRateLimits({ agents: ["claude", "gemini", "codex"] });
+    expect(result.claude.plan).toBe("pro");
+    expect(result.gemini.plan).toBe("standard");
+    expect(result.codex.plan).toBeNull();
+  });
+
+  it("redacts the signed-in account unless showAccount is set", async () => {
+    vi.spyOn(claude, "fetchClaudeRateLimits").mockResolvedValue({
+      five_hour: { utilization: 10, resets_at: new Date().toISOString() },
+      seven_day: null,
+      seven_day_sonnet: null,
+      extra_usage: null,
+      account: {
+        email: "jane@example.com",
+        login: null,
+        organization: "Acme",
+        accountId: "0f9e8d7c-1234"
+      }
+    });
+    vi.spyOn(codex, "fetchCodexRateLimits").mockRejectedValue(
+      new QuotaFetchError("no_credentials", "missing auth.json")
+    );
+
+    const redacted = await fetchAllRateLimits({ agents: ["claude", "codex"] });
+    expect(redacted.claude.account).toEqual({
+      email: "j***@example.com",
+      login: null,
+      organization: "A***",
+      accountId: "***1234"
+    });
+    expect(redacted.codex.account).toBeNull();
+
+    const shown = await fetchAllRateLimits({ agents: ["claude"], showAccount: true });
+    expect(shown.claude.account?.email).toBe("jane@example.com");
+  });
+
+  it("serves cached results when the cache is enabled and redacts them per call", async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "ai-quota-index-cache-"));
+    try {
+      const spy = vi.spyOn(claude, "fetchClaudeRateLimits").mockResolvedValue({
+        five_hour: { utilization: 10, resets_at: "2026-10-19T15:00:00.000Z" },
+        seven_day: null,
+        seven_day_sonnet: null,
+        extra_usage: null,
+        account: { email: "jane@example.com", login: null, organization: null, accountId: null }
+      });
+
+      const first = await fetchAllRateLimits({ agents: ["claude"], cache: { dir } });
+      const second = await fetchAllRateLimits({
+        agents: ["claude"],
+        cache: { dir },
+        showAccount: true
+      });
+      const uncached = await fetchAllRateLimits({ agents: ["claude"] });
+
+      expect(spy).toHaveBeenCalledTimes(2);
+      expect(first.claude.fromCache).toBe(false);
+      expect(first.claude.account?.email).toBe("j***@example.com");
+      expect(second.claude.fromCache).toBe(true);
+      expect(second.claude.fetchedAt).toEqual(first.claude.fetchedAt);
+      expect(second.claude.account?.email).toBe("jane@example.com");
+      expect(second.claude.windows?.[0]?.resetAt).toEqual(new Date("2026-10-19T15:00:00.000Z"));
+      expect(uncached.claude.fromCache).toBe(false);
+      expect(uncached.claude.fetchedAt).toBeInstanceOf(Date);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("records fetched windows in the quota history when requested", async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "ai-quota-index-history-"));
+    try {
+      vi.spyOn(claude, "fetchClaudeRateLimits").mockResolvedValue({
+        five_hour: { utilization: 10, resets_at: "2026-10-19T15:00:00.000Z" },
+        seven_day: null,
+        seven_day_sonnet: null,
+        extra_usage: null
+      });
+
+      await fetchAllRateLimits({ agents: ["claude"] });
+      await fetchAllRateLimits({ agents: ["claude"], history: { dir } });
+
+      expect(readQuotaHistory({ dir })).toMatchObject([
+        { agent: "claude", window: "five_hour", label: "5h", usedPercent: 10 }
+      ]);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
   it("handles missing Copilot token as no-data", async () => {
-    vi.spyOn(copilot, "getCopilotToken").mockReturnValue(null);
+    vi.spyOn(copilot, "discoverCopilotToken").mockReturnValue(null);
 
     const result = await fetchAllRateLimits({ agents: ["copilot"], timeoutSeconds: 1 });
     expect(result.copilot.status).toBe("no-data");
@@ -84,6 +209,24 @@ describe("fetchAllRateLimits", () => {
     );
   });
 
+  it("includes Claude extra-usage spend in the display and summary", async () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date("2026-02-19T10:00:00Z"));
+
+    vi.spyOn(claude, "fetchClaudeRateLimits").mockResolvedValue({
+      five_hour: { utilization: 10, resets_at: "2026-02-19T12:11:00Z" },
+      seven_day: null,
+      seven_day_sonnet: null,
+      extra_usage: { is_enabled: true, monthly_limit: 2000, used_credits: 1700, utilization: 85 }
+    });
+
+    const result = await fetchAllRateLimits({ agents: ["claude"] });
+    expect(result.claude.display).toBe(
+      "5h: 10% used (resets in 2h 11m), extra usage: $17.00 / $20.00 (85% used)"
+    );
+    expect(result.summary).toEqual({ status: "warning", message: "Usage is high (up to 85%)." });
+  });
+
   it("renders Claude Sonnet-only 7d separately when present", async () => {
     vi.useFakeTimers();
     vi.setSystemTime(new Date("2026-02-19T10:00:00Z"));
@@ -161,4 +304,231 @@ describe("fetchAllRateLimits", () => {
       "5h: 64% used (resets in 1h 2m), 7d: 44% used (resets in 6d 8h 2m)"
     );
   });
+
+  it("includes Codex additional limits and credits in the display", async () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date("2026-02-19T10:00:00Z"));
+
+    vi.spyOn(codex, "fetchCodexRateLimits").mockResolvedValue({
+      primary: {
+        used_percent: 64,
+        windowDurationMins: 300,
+        resetsAt: Math.floor(new Date("2026-02-19T11:02:00Z").getTime() / 1000)
+      },
+      additionalLimits: {
+        code_review: {
+          primary: {
+            used_percent: 12,
+            windowDurationMins: 10080,
+            resetsAt: Math.floor(new Date("2026-02-25T18:02:00Z").getTime() / 1000)
+          }
+        }
+      },
+      credits: { has_credits: true, unlimited: true, balance: null }
+    });
+
+    const result = await fetchAllRateLimits({ agents: ["codex"] });
+    expect(result.codex.display).toBe(
+      "5h: 64% used (resets in 1h 2m), code review 7d: 12% used (resets in 6d 8h 2m), credits: unlimited"
+    );
+  });
+
+  it("attaches normalized windows to every result", async () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date("2026-02-19T10:00:00Z"));
+
+    vi.spyOn(claude, "fetchClaudeRateLimits").mockResolvedValue({
+      five_hour: { utilization: 10, resets_at: "2026-02-19T12:11:00Z" },
+      seven_day: { utilization: 22, resets_at: "2026-02-25T02:11:00Z" },
+      seven_day_sonnet: { utilization: 15, resets_at: "2026-02-24T12:11:00Z" },
+      extra_usage: null
+    });
+    vi.spyOn(copilot, "discoverCopilotToken").mockReturnValue({
+      token: "fake-token",
+      source: { kind: "env", location: "GITHUB_TOKEN" }
+    });
+    vi.spyOn(copilot, "fetchCopilotRateLimits").mockResolvedValue({
+      percentRemaining: 28,
+      resetAt: new Date("2026-03-01T00:00:00Z"),
+      entitlement: 300,
+      overageUsed: 0,
+      overageEnabled: false,
+      quotas: {
+        premium_interactions: {
+          id: "premium_interactions",
+          unlimited: false,
+          percentRemaining: 28,
+          entitlement: 300,
+          remaining: 84,
+          overageUsed: 0,
+          overageEnabled: false
+        },
+        chat: {
+          id: "chat",
+          unlimited: true,
+          percentRemaining: 100,
+          entitlement: 0,
+          remaining: null,
+          overageUsed: 0,
+          overageEnabled: false
+        }
+      },
+      source: "user",
+      raw: {}
+    });
+    vi.spyOn(codex, "fetchCodexRateLimits").mockRejectedValue(
+      new QuotaFetchError("no_credentials", "missing auth.json")
+    );
+
+    const result = await fetchAllRateLimits({ agents: ["claude", "copilot", "codex"] });
+
+    expect(result.claude.windows).toEqual([
+      {
+        id: "five_hour",
+        label: "5h",
+        usedPercent: 10,
+        resetAt: new Date("2026-02-19T12:11:00Z"),
+        windowDurationMs: 5 * 3600_000,
+        scope: null,
+        // 2h 11m of 5h left
+        elapsedPercent: expect.closeTo((169 / 300) * 100, 6),
+        paceRatio: expect.closeTo(10 / ((169 / 300) * 100), 6)
+      },
+      {
+        id: "seven_day",
+        label: "7d",
+        usedPercent: 22,
+        resetAt: new Date("2026-02-25T02:11:00Z"),
+        windowDurationMs: 7 * 24 * 3600_000,
+        scope: "all models",
+        elapsedPercent: expect.closeTo((1909 / 10080) * 100, 6),
+        paceRatio: expect.closeTo(22 / ((1909 / 10080) * 100), 6)
+      },
+      {
+        id: "seven_day_sonnet",
+        label: "7d",
+        usedPercent: 15,
+        resetAt: new Date("2026-02-24T12:11:00Z"),
+        windowDurationMs: 7 * 24 * 3600_000,
+        scope: "sonnet only",
+        elapsedPercent: expect.closeTo((2749 / 10080) * 100, 6),
+        paceRatio: expect.closeTo(15 / ((2749 / 10080) * 100), 6)
+      }
+    ]);
+    expect(result.copilot.windows).toEqual([
+      {
+        id: "premium_interactions",
+        label: "monthly",
+        usedPercent: 72,
+        resetAt: new Date("2026-03-01T00:00:00Z"),
+        windowDurationMs: 28 * 24 * 3600_000,
+        scope: "premium requests",
+        remaining: 84,
+        limit: 300,
+        overage: 0,
+        elapsedPercent: expect.closeTo((442 / 672) * 100, 6),
+        paceRatio: expect.closeTo(72 / ((442 / 672) * 100), 6)
+      }
+    ]);
+    expect(result.copilot.data?.tokenSource).toEqual({ kind: "env", location: "GITHUB_TOKEN" });
+    expect(result.codex.windows).toEqual([]);
+    expect(result.gemini.windows).toEqual([]);
+  });
+
+  it("passes per-agent config directory overrides to the providers", async () => {
+    const claudeSpy = vi.spyOn(claude, "fetchClaudeRateLimits").mockRejectedValue(
+      new QuotaFetchError("no_credentials", "missing creds")
+    );
+    const codexSpy = vi.spyOn(codex, "fetchCodexRateLimits").mockRejectedValue(
+      new QuotaFetchError("no_credentials", "missing auth.json")
+    );
+
+    await fetchAllRateLimits({
+      agents: ["claude", "codex"],
+      configDirs: { claude: "/jobs/42/.claude" }
+    });
+
+    expect(claudeSpy).toHaveBeenCalledWith(10000, {
+      configDir: "/jobs/42/.claude",
+      persistRefreshedCredentials: true
+    });
+    expect(codexSpy).toHaveBeenCalledWith(expect.objectContaining({ codexHome: undefined }));
+  });
+
+  it("disables credential write-back in read-only mode", async () => {
+    const claudeSpy = vi
+      .spyOn(claude, "fetchClaudeRateLimits")
+      .mockRejectedValue(new QuotaFetchError("no_credentials", "missing creds"));
+    const geminiSpy = vi
+      .spyOn(gemini, "fetchGeminiRateLimits")
+      .mockRejectedValue(new QuotaFetchError("no_credentials", "missing creds"));
+    const codexSpy = vi
+      .spyOn(codex, "fetchCodexRateLimits")
+      .mockRejectedValue(new QuotaFetchError("no_credentials", "missing auth.json"));
+
+    await fetchAllRateLimits({ agents: ["claude", "gemini", "codex"], readOnlyCredentials: true });
+
+    expect(claudeSpy).toHaveBeenCalledWith(
+      10000,
+      expect.objectContaining({ persistRefreshedCredentials: false })
+    );
+    expect(geminiSpy).toHaveBeenCalledWith(
+      10000,
+      expect.objectContaining({ persistRefreshedCredentials: false })
+    );
+    expect(codexSpy).toHaveBeenCalledWith(
+      expect.objectContaining({ persistRefreshedCredentials: false })
+    );
+  });
+
+  it("passes the GitHub host override to Copilot discovery and fetch", async () => {
+    const tokenSpy = vi.spyOn(copilot, "discoverCopilotToken").mockReturnValue({
+      token: "ghe-token",
+      source: { kind: "env", location: "GITHUB_TOKEN" }
+    });
+    const fetchSpy = vi
+      .spyOn(copilot, "fetchCopilotRateLimits")
+      .mockRejectedValue(new QuotaFetchError("auth_failed", "bad token"));
+
+    await fetchAllRateLimits({ agents: ["copilot"], hosts: { copilot: "octo.ghe.com" } });
+
+    expect(tokenSpy).toHaveBeenCalledWith(false, { configDir: undefined, host: "octo.ghe.com" });
+    expect(fetchSpy).toHaveBeenCalledWith(
+      expect.objectContaining({ token: "ghe-token", host: "octo.ghe.com" })
+    );
+  });
+
+  it("fetches each declared account under <agent>:<name> and aggregates the summary", async () => {
+    const claudeSpy = vi
+      .spyOn(claude, "fetchClaudeRateLimits")
+      .mockImplementation(async (_timeoutMs, options) => ({
+        five_hour: {
+          utilization: options?.configDir === "/accounts/work" ? 95 : 10,
+          resets_at: new Date(Date.now() + 3600_000).toISOString()
+        },
+        seven_day: null,
+        seven_day_sonnet: null,
+        extra_usage: null
+      }));
+
+    const result = await fetchAllRateLimits({
+      agents: ["claude"],
+      accounts: [
+        { agent: "claude", name: "work", configDir: "/accounts/work" },
+        { agent: "claude", name: "personal", configDir: "/accounts/personal" }
+      ]
+    });
+
+    expect(claudeSpy).toHaveBeenCalledTimes(2);
+    expect(result["claude:work"]).toMatchObject({ status: "ok" });
+    expect(result["claude:personal"]).toMatchObject({ status: "ok" });
+    expect(result.claude.display).toBe("skipped");
+    expect(result.summary.status).toBe("warning");
+    expect(result.summary.message).toContain("95");
+  });
+
+  it("reports an undeclared account as an error", async () => {
+    const result = await fetchAllRateLimits({ agents: ["claude:nope"] });
+    expect(result["claude:nope"]).toMatchObject({ status: "error", reason: "unknown" });
+  });
 });
@@ -26,7 +26,7 @@ describe("handleMcpMessage", () => {
     // Mock fetchAllRateLimits to avoid real network/file calls
     vi.spyOn(index, "fetchAllRateLimits").mockResolvedValue({
       summary: { status: "healthy", message: "ok" },
-      claude: { status: "ok", display: "10%", data: null, error: null },
+      claude: { status: "ok", display: "10%", data: null, error: null, plan: "max 20x" },
       gemini: { status: "ok", display: "20%", data: null, error: null },
       copilot: { status: "ok", display: "30%", data: null, error: null },
       codex: { status: "no-data", display: "none", data: null, error: null }
@@ -42,8 +42,8 @@ describe("handleMcpMessage", () => {
       }
     });
 
-    expect(response?.result.content[0].text).toContain("| claude | ok | 10% |");
-    expect(response?.result.content[0].text).toContain("| gemini | ok | 20% |");
+    expect(response?.result.content[0].text).toContain("| claude | ok | max 20x | 10% |");
+    expect(response?.result.content[0].text).toContain("| gemini | ok | - | 20% |");
   });
 
   it("returns error for unknown tool", async () => {
@@ -57,4 +57,79 @@ describe("handleMcpMessage", () => {
     });
     expect(response?.error?.code).toBe(-32601);
   });
+
+  it("adds a Forecast column when forecasts are enabled", async () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date("2026-10-19T10:00:00Z"));
+    const window = {
+      id: "five_hour",
+      label: "5h",
+      usedPercent: 65,
+      resetAt: new Date("2026-10-19T13:00:00Z"),
+      windowDurationMs: null,
+      scope: null
+    };
+    const spy = vi.spyOn(index, "fetchAllRateLimits").mockResolvedValue({
+      summary: { status: "healthy", message: "ok" },
+      claude: {
+        status: "ok",
+        display: "5h: 65% used",
+        data: null,
+        error: null,
+        windows: [
+          {
+            ...window,
+            burnRatePercentPerHour: 30,
+            projectedExhaustionAt: new Date("2026-10-19T11:10:00Z"),
+            willExhaustBeforeReset: true
+          }
+        ]
+      },
+      codex: { status: "ok", display: "5h: 5% used", data: null, error: null, windows: [window] }
+    } as any);
+
+    const response = await handleMcpMessage(
+      {
+        jsonrpc: "2.0",
+        id: 6,
+        method: "tools/call",
+        params: { name: "get_quota", arguments: {} }
+      },
+      { forecast: true }
+    );
+    vi.useRealTimers();
+
+    const text = response?.result.content[0].text;
+    expect(spy).toHaveBeenCalledWith(expect.objectContaining({ forecast: true }));
+    expect(text).toContain("| Agent | Status | Plan | Usage/Limit | Forecast |");
+    expect(text).toContain("| claude | ok | - | 5h: 65% used | 100% in 1h 10m, before reset |");
+    expect(text).toContain("| codex | ok | - | 5h: 5% used | - |");
+  });
+
+  it("lists declared accounts in get_quota output", async () => {
+    const spy = vi.spyOn(index, "fetchAllRateLimits").mockResolvedValue({
+      summary: { status: "healthy", message: "ok" },
+      "codex:work": { status: "ok", display: "5h: 40% used", data: null, error: null },
+      "codex:personal": { status: "ok", display: "5h: 5% used", data: null, error: null }
+    } as any);
+
+    const response = await handleMcpMessage(
+      {
+        jsonrpc: "2.0",
+        id: 5,
+        method: "tools/call",
+        params: { name: "get_quota", arguments: { agent: "codex" } }
+      },
+      {
+        accounts: [
+          { agent: "codex", name: "work" },
+          { agent: "codex", name: "personal" }
+        ]
+      }
+    );
+
+    expect(spy).toHaveBeenCalledWith(expect.objectContaining({ agents: ["codex"] }));
+    expect(response?.result.content[0].text).toContain("| codex:work | ok | - | 5h: 40% used |");
+    expect(response?.result.content[0].text).toContain("| codex:personal | ok | - | 5h: 5% used |");
+  });
 });
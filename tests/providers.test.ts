@@ -0,0 +1,83 @@
+import { describe, expect, it, vi, afterEach } from "vitest";
+import {
+  fetchAllRateLimits,
+  registerProvider,
+  unregisterProvider,
+  listAgents
+} from "../src/index.js";
+import type { QuotaProvider } from "../src/index.js";
+import { QuotaFetchError } from "../src/errors.js";
+import { buildHumanRows } from "../src/human-output.js";
+import { handleMcpMessage } from "../src/mcp.js";
+
+type InternalUsage = { used: number };
+
+function makeProvider(overrides?: Partial<QuotaProvider<InternalUsage>>): QuotaProvider<InternalUsage> {
+  return {
+    id: "internal",
+    fetch: async () => ({ used: 42 }),
+    formatDisplay: (data) => `${data.used}% used`,
+    usedPercents: (data) => [data.used],
+    ...overrides
+  };
+}
+
+describe("provider registry", () => {
+  afterEach(() => {
+    unregisterProvider("internal");
+    vi.restoreAllMocks();
+  });
+
+  it("lists built-in agents first and appends registered providers", () => {
+    registerProvider(makeProvider());
+    expect(listAgents()).toEqual(["claude", "gemini", "copilot", "codex", "internal"]);
+  });
+
+  it("rejects empty and reserved ids", () => {
+    expect(() => registerProvider(makeProvider({ id: "" }))).toThrow(TypeError);
+    expect(() => registerProvider(makeProvider({ id: "summary" }))).toThrow(TypeError);
+    expect(() => registerProvider(makeProvider({ id: "history" }))).toThrow(/reserved/);
+  });
+
+  it("includes registered providers in fetchAllRateLimits and the summary", async () => {
+    registerProvider(makeProvider({ fetch: async () => ({ used: 91 }) }));
+
+    const result = await fetchAllRateLimits({ agents: ["internal"] });
+    const internal = result["internal"];
+    expect(internal).toMatchObject({ status: "ok", display: "91% used", data: { used: 91 } });
+    expect(result.claude.display).toBe("skipped");
+    expect(result.summary.status).toBe("warning");
+  });
+
+  it("maps QuotaFetchError reasons and missing credentials", async () => {
+    registerProvider(
+      makeProvider({
+        fetch: async () => {
+          throw new QuotaFetchError("auth_failed", "denied");
+        }
+      })
+    );
+    let result = await fetchAllRateLimits({ agents: ["internal"] });
+    expect(result["internal"]).toMatchObject({ status: "error", reason: "auth_failed" });
+
+    const fetchSpy = vi.fn(async () => ({ used: 1 }));
+    registerProvider(makeProvider({ discoverCredentials: () => null, fetch: fetchSpy }));
+    result = await fetchAllRateLimits({ agents: ["internal"] });
+    expect(result["internal"]).toMatchObject({ status: "no-data", reason: "no_credentials" });
+    expect(fetchSpy).not.toHaveBeenCalled();
+  });
+
+  it("builds a generic human row when the provider has no row hook", async () => {
+    registerProvider(makeProvider({ fetch: async () => ({ used: 85 }) }));
+    const all = await fetchAllRateLimits({ agents: ["internal"] });
+
+    const rows = buildHumanRows(all, { agents: ["internal"] });
+    expect(rows).toEqual([{ agent: "internal", status: "LOW_QUOTA", limit: "-", details: "85% used" }]);
+  });
+
+  it("exposes registered providers in the MCP get_quota enum", async () => {
+    registerProvider(makeProvider());
+    const response = await handleMcpMessage({ jsonrpc: "2.0", id: 1, method: "tools/list" });
+    expect(response?.result.tools[0].inputSchema.properties.agent.enum).toContain("internal");
+  });
+});
@@ -0,0 +1,240 @@
+import { describe, expect, it, vi, beforeEach, afterEach } from "vitest";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { fetchWithCache, resolveCachePolicy } from "../src/result-cache.js";
+import type { CachePolicy } from "../src/result-cache.js";
+import { QuotaFetchError } from "../src/errors.js";
+import type { ErrorReason, QuotaResult } from "../src/types.js";
+
+function okResult(usedPercent: number): QuotaResult<unknown> {
+  return {
+    status: "ok",
+    reason: null,
+    error: null,
+    data: { usedPercent },
+    display: `${usedPercent}% used`,
+    windows: [
+      {
+        id: "five_hour",
+        label: "5h",
+        usedPercent,
+        resetAt: new Date("2026-10-19T15:00:00.000Z"),
+        windowDurationMs: 5 * 60 * 60 * 1000,
+        scope: null
+      }
+    ],
+    plan: "pro",
+    account: null
+  };
+}
+
+function failedResult(reason: ErrorReason, message: string, httpStatus?: number) {
+  return {
+    status: "error" as const,
+    reason,
+    error: message,
+    rawError: new QuotaFetchError(reason, message, { httpStatus }),
+    data: null,
+    display: `error (${reason}): ${message}`,
+    windows: []
+  };
+}
+
+describe("result cache", () => {
+  let tmpDir: string;
+  let policy: CachePolicy;
+  const entry = { key: "claude" };
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "ai-quota-result-cache-"));
+    policy = {
+      dir: tmpDir,
+      maxAgeMs: 60_000,
+      staleWhileRevalidateMs: 0,
+      refresh: false,
+      maxStaleMs: 3_600_000,
+      lockTimeoutMs: 1000
+    };
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it("serves a fresh cached result with its fetch time and revived dates", async () => {
+    const fetchFresh = vi.fn().mockResolvedValue(okResult(10));
+
+    const first = await fetchWithCache(entry, policy, fetchFresh);
+    const second = await fetchWithCache(entry, policy, fetchFresh);
+
+    expect(fetchFresh).toHaveBeenCalledTimes(1);
+    expect(first.fromCache).toBe(false);
+    expect(second.fromCache).toBe(true);
+    expect(second.fetchedAt).toEqual(first.fetchedAt);
+    expect(second.windows?.[0]?.resetAt).toEqual(new Date("2026-10-19T15:00:00.000Z"));
+    expect(second.display).toBe("10% used");
+  });
+
+  it("fetches again once the entry is older than the maximum age", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(new Date("2026-10-19T10:00:00.000Z"));
+    const fetchFresh = vi
+      .fn()
+      .mockResolvedValueOnce(okResult(10))
+      .mockResolvedValueOnce(okResult(20));
+
+    await fetchWithCache(entry, policy, fetchFresh);
+    vi.setSystemTime(new Date("2026-10-19T10:01:01.000Z"));
+    const result = await fetchWithCache(entry, policy, fetchFresh);
+
+    expect(fetchFresh).toHaveBeenCalledTimes(2);
+    expect(result.fromCache).toBe(false);
+    expect(result.display).toBe("20% used");
+  });
+
+  it("bypasses but updates the cache on refresh", async () => {
+    const fetchFresh = vi
+      .fn()
+      .mockResolvedValueOnce(okResult(10))
+      .mockResolvedValueOnce(okResult(20));
+
+    await fetchWithCache(entry, policy, fetchFresh);
+    const refreshed = await fetchWithCache(entry, { ...policy, refresh: true }, fetchFresh);
+    const cached = await fetchWithCache(entry, policy, fetchFresh);
+
+    expect(refreshed.fromCache).toBe(false);
+    expect(refreshed.display).toBe("20% used");
+    expect(cached.fromCache).toBe(true);
+    expect(cached.display).toBe("20% used");
+  });
+
+  it("does not cache failures", async () => {
+    const fetchFresh = vi
+      .fn()
+      .mockResolvedValueOnce({
+        status: "error",
+        reason: "api_error",
+        error: "API Down",
+        data: null,
+        display: "error: API Down"
+      })
+      .mockResolvedValueOnce(okResult(10));
+
+    const failed = await fetchWithCache(entry, policy, fetchFresh);
+    const result = await fetchWithCache(entry, policy, fetchFresh);
+
+    expect(failed.status).toBe("error");
+    expect(result.status).toBe("ok");
+    expect(fetchFresh).toHaveBeenCalledTimes(2);
+  });
+
+  it("keeps entries for different config dirs apart", async () => {
+    const fetchFresh = vi
+      .fn()
+      .mockResolvedValueOnce(okResult(10))
+      .mockResolvedValueOnce(okResult(20));
+
+    await fetchWithCache(entry, policy, fetchFresh);
+    const other = await fetchWithCache({ key: "claude", configDir: "/work" }, policy, fetchFresh);
+
+    expect(other.fromCache).toBe(false);
+    expect(other.display).toBe("20% used");
+  });
+
+  it("coalesces concurrent fetches onto one request", async () => {
+    let resolveFetch: (result: QuotaResult<unknown>) => void = () => undefined;
+    const fetchFresh = vi.fn(
+      () => new Promise<QuotaResult<unknown>>((resolve) => (resolveFetch = resolve))
+    );
+
+    const first = fetchWithCache(entry, policy, fetchFresh);
+    const second = fetchWithCache(entry, policy, fetchFresh);
+    await vi.waitFor(() => expect(fetchFresh).toHaveBeenCalledTimes(1));
+    resolveFetch(okResult(10));
+
+    expect((await first).fromCache).toBe(false);
+    expect((await second).fromCache).toBe(true);
+    expect(fetchFresh).toHaveBeenCalledTimes(1);
+  });
+
+  it("serves an expired result while revalidating it in the background", async () => {
+    // Stay close to the real clock: lock staleness is judged by the lock file's mtime
+    const start = Date.now();
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(start);
+    const fetchFresh = vi
+      .fn()
+      .mockResolvedValueOnce(okResult(10))
+      .mockResolvedValueOnce(okResult(20));
+    const swr = { ...policy, maxAgeMs: 1000, staleWhileRevalidateMs: 300_000 };
+
+    await fetchWithCache(entry, swr, fetchFresh);
+    vi.setSystemTime(start + 2000);
+    const stale = await fetchWithCache(entry, swr, fetchFresh);
+
+    expect(stale.fromCache).toBe(true);
+    expect(stale.display).toBe("10% used");
+    await vi.waitFor(async () =>
+      expect((await fetchWithCache(entry, swr, fetchFresh)).display).toBe("20% used")
+    );
+    expect(fetchFresh).toHaveBeenCalledTimes(2);
+  });
+
+  it("falls back to the last successful result on a transient failure", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(new Date("2026-10-19T10:00:00.000Z"));
+    const fetchFresh = vi
+      .fn()
+      .mockResolvedValueOnce(okResult(10))
+      .mockResolvedValueOnce(failedResult("timeout", "Request timed out"))
+      .mockResolvedValueOnce(failedResult("api_error", "Bad Gateway", 502));
+
+    const first = await fetchWithCache(entry, policy, fetchFresh);
+    vi.setSystemTime(new Date("2026-10-19T10:05:00.000Z"));
+    const timedOut = await fetchWithCache(entry, policy, fetchFresh);
+    const badGateway = await fetchWithCache(entry, policy, fetchFresh);
+
+    expect(timedOut).toMatchObject({
+      status: "ok",
+      stale: true,
+      staleAgeSeconds: 300,
+      staleError: { reason: "timeout", message: "Request timed out" },
+      fromCache: true,
+      display: "STALE 5m (timeout): 10% used"
+    });
+    expect(timedOut.fetchedAt).toEqual(first.fetchedAt);
+    expect(badGateway.stale).toBe(true);
+    expect(badGateway.staleError?.reason).toBe("api_error");
+  });
+
+  it("reports other failures and results beyond the maximum staleness as they are", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(new Date("2026-10-19T10:00:00.000Z"));
+    const fetchFresh = vi
+      .fn()
+      .mockResolvedValueOnce(okResult(10))
+      .mockResolvedValueOnce(failedResult("auth_failed", "Unauthorized", 401))
+      .mockResolvedValueOnce(failedResult("network_error", "ECONNRESET"));
+
+    await fetchWithCache(entry, policy, fetchFresh);
+    vi.setSystemTime(new Date("2026-10-19T10:05:00.000Z"));
+    const unauthorized = await fetchWithCache(entry, policy, fetchFresh);
+    vi.setSystemTime(new Date("2026-10-19T11:01:00.000Z"));
+    const tooOld = await fetchWithCache(entry, policy, fetchFresh);
+
+    expect(unauthorized.status).toBe("error");
+    expect(unauthorized.stale).toBeUndefined();
+    expect(tooOld.status).toBe("error");
+    expect(tooOld.reason).toBe("network_error");
+  });
+
+  it("resolves per-agent maximum ages before the provider default", () => {
+    const options = { maxAgeSeconds: { gemini: 600 }, dir: tmpDir };
+    expect(resolveCachePolicy("gemini", options, 120, 10).maxAgeMs).toBe(600_000);
+    expect(resolveCachePolicy("copilot", options, 300, 10).maxAgeMs).toBe(300_000);
+    expect(resolveCachePolicy("custom", options, undefined, 10).maxAgeMs).toBe(60_000);
+    expect(resolveCachePolicy("claude", { maxAgeSeconds: 5 }, 60, 10).maxAgeMs).toBe(5000);
+  });
+});